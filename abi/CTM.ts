@@ -3,13 +3,44 @@ export const CTMABI = [
         "type": "constructor",
         "inputs": [
             {
-                "name": "_admin",
+                "name": "_c3caller",
                 "type": "address",
                 "internalType": "address"
+            },
+            {
+                "name": "_dappID",
+                "type": "uint256",
+                "internalType": "uint256"
             }
         ],
         "stateMutability": "nonpayable"
     },
+    {
+        "type": "function",
+        "name": "FEE_DENOMINATOR",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "MAX_SUPPLY",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
     {
         "type": "function",
         "name": "allowance",
@@ -90,6 +121,82 @@ export const CTMABI = [
         "outputs": [],
         "stateMutability": "nonpayable"
     },
+    {
+        "type": "function",
+        "name": "c3TransferFee",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "c3transfer",
+        "inputs": [
+            {
+                "name": "_toStr",
+                "type": "string",
+                "internalType": "string"
+            },
+            {
+                "name": "_amount",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "_toChainIDStr",
+                "type": "string",
+                "internalType": "string"
+            }
+        ],
+        "outputs": [
+            {
+                "name": "",
+                "type": "bool",
+                "internalType": "bool"
+            }
+        ],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "c3transferFrom",
+        "inputs": [
+            {
+                "name": "_from",
+                "type": "address",
+                "internalType": "address"
+            },
+            {
+                "name": "_toStr",
+                "type": "string",
+                "internalType": "string"
+            },
+            {
+                "name": "_amount",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "_toChainIDStr",
+                "type": "string",
+                "internalType": "string"
+            }
+        ],
+        "outputs": [
+            {
+                "name": "",
+                "type": "bool",
+                "internalType": "bool"
+            }
+        ],
+        "stateMutability": "nonpayable"
+    },
     {
         "type": "function",
         "name": "decimals",
@@ -116,6 +223,19 @@ export const CTMABI = [
         ],
         "stateMutability": "view"
     },
+    {
+        "type": "function",
+        "name": "setC3TransferFee",
+        "inputs": [
+            {
+                "name": "_fee",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
     {
         "type": "function",
         "name": "symbol",
@@ -220,6 +340,51 @@ export const CTMABI = [
         ],
         "anonymous": false
     },
+    {
+        "type": "event",
+        "name": "CTMMint",
+        "inputs": [
+            {
+                "name": "_to",
+                "type": "address",
+                "internalType": "address",
+                "indexed": true
+            },
+            {
+                "name": "_amount",
+                "type": "uint256",
+                "internalType": "uint256",
+                "indexed": false
+            }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "CTMTreasuryMint",
+        "inputs": [
+            {
+                "name": "_amount",
+                "type": "uint256",
+                "internalType": "uint256",
+                "indexed": false
+            }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "SetC3TransferFee",
+        "inputs": [
+            {
+                "name": "_amount",
+                "type": "uint256",
+                "internalType": "uint256",
+                "indexed": false
+            }
+        ],
+        "anonymous": false
+    },
     {
         "type": "event",
         "name": "Transfer",
@@ -245,6 +410,16 @@ export const CTMABI = [
         ],
         "anonymous": false
     },
+    {
+        "type": "error",
+        "name": "CTM_ExceedsMaxSupply",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "CTM_FeeNumeratorTooHigh",
+        "inputs": []
+    },
     {
         "type": "error",
         "name": "ERC20InsufficientAllowance",
@@ -331,4 +506,6 @@ export const CTMABI = [
             }
         ]
     }
-]
\ No newline at end of file
+] as const
+
+export type CTMAbi = typeof CTMABI
@@ -6,6 +6,11 @@ export const CTMDAOGovernorABI = [
                 "name": "_token",
                 "type": "address",
                 "internalType": "address"
+            },
+            {
+                "name": "_proposalGuardian",
+                "type": "address",
+                "internalType": "address"
             }
         ],
         "stateMutability": "nonpayable"
@@ -838,6 +843,19 @@ export const CTMDAOGovernorABI = [
         ],
         "stateMutability": "view"
     },
+    {
+        "type": "function",
+        "name": "proposalGuardian",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "address",
+                "internalType": "address"
+            }
+        ],
+        "stateMutability": "view"
+    },
     {
         "type": "function",
         "name": "proposalNeedsQueuing",
@@ -908,6 +926,32 @@ export const CTMDAOGovernorABI = [
         ],
         "stateMutability": "view"
     },
+    {
+        "type": "function",
+        "name": "proposalThresholdDenominator",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "proposalThresholdNumerator",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
     {
         "type": "function",
         "name": "proposalVotes",
@@ -918,6 +962,35 @@ export const CTMDAOGovernorABI = [
                 "internalType": "uint256"
             }
         ],
+        "outputs": [
+            {
+                "name": "againstVotes",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "forVotes",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "abstainVotes",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "proposalVotesDelta",
+        "inputs": [
+            {
+                "name": "proposalId",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
         "outputs": [
             {
                 "name": "",
@@ -1113,6 +1186,19 @@ export const CTMDAOGovernorABI = [
         "outputs": [],
         "stateMutability": "nonpayable"
     },
+    {
+        "type": "function",
+        "name": "setProposalGuardian",
+        "inputs": [
+            {
+                "name": "newProposalGuardian",
+                "type": "address",
+                "internalType": "address"
+            }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
     {
         "type": "function",
         "name": "setProposalThreshold",
@@ -1171,6 +1257,57 @@ export const CTMDAOGovernorABI = [
         ],
         "stateMutability": "view"
     },
+    {
+        "type": "function",
+        "name": "superQuorum",
+        "inputs": [
+            {
+                "name": "timepoint",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "superQuorumNumerator",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "superQuorumNumerator",
+        "inputs": [
+            {
+                "name": "timepoint",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
     {
         "type": "function",
         "name": "supportsInterface",
@@ -1203,6 +1340,32 @@ export const CTMDAOGovernorABI = [
         ],
         "stateMutability": "view"
     },
+    {
+        "type": "function",
+        "name": "updateProposalThresholdDenominator",
+        "inputs": [
+            {
+                "name": "_proposalThresholdDenominator",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "updateProposalThresholdNumerator",
+        "inputs": [
+            {
+                "name": "_proposalThresholdNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
     {
         "type": "function",
         "name": "updateQuorumNumerator",
@@ -1216,6 +1379,19 @@ export const CTMDAOGovernorABI = [
         "outputs": [],
         "stateMutability": "nonpayable"
     },
+    {
+        "type": "function",
+        "name": "updateSuperQuorumNumerator",
+        "inputs": [
+            {
+                "name": "newSuperQuorumNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
     {
         "type": "function",
         "name": "version",
@@ -1386,6 +1562,25 @@ export const CTMDAOGovernorABI = [
         ],
         "anonymous": false
     },
+    {
+        "type": "event",
+        "name": "ProposalGuardianSet",
+        "inputs": [
+            {
+                "name": "oldProposalGuardian",
+                "type": "address",
+                "indexed": false,
+                "internalType": "address"
+            },
+            {
+                "name": "newProposalGuardian",
+                "type": "address",
+                "indexed": false,
+                "internalType": "address"
+            }
+        ],
+        "anonymous": false
+    },
     {
         "type": "event",
         "name": "ProposalQueued",
@@ -1443,6 +1638,25 @@ export const CTMDAOGovernorABI = [
         ],
         "anonymous": false
     },
+    {
+        "type": "event",
+        "name": "SuperQuorumNumeratorUpdated",
+        "inputs": [
+            {
+                "name": "oldSuperQuorumNumerator",
+                "type": "uint256",
+                "indexed": false,
+                "internalType": "uint256"
+            },
+            {
+                "name": "newSuperQuorumNumerator",
+                "type": "uint256",
+                "indexed": false,
+                "internalType": "uint256"
+            }
+        ],
+        "anonymous": false
+    },
     {
         "type": "event",
         "name": "VoteCast",
@@ -1625,6 +1839,22 @@ export const CTMDAOGovernorABI = [
             }
         ]
     },
+    {
+        "type": "error",
+        "name": "GovernorDeltaOutOfBounds",
+        "inputs": [
+            {
+                "name": "limit",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "index",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ]
+    },
     {
         "type": "error",
         "name": "GovernorDisabledDeposit",
@@ -1672,6 +1902,22 @@ export const CTMDAOGovernorABI = [
             }
         ]
     },
+    {
+        "type": "error",
+        "name": "GovernorInvalidProposalThreshold",
+        "inputs": [
+            {
+                "name": "_proposalThresholdNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "_proposalThresholdDenominator",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ]
+    },
     {
         "type": "error",
         "name": "GovernorInvalidQuorumFraction",
@@ -1688,6 +1934,22 @@ export const CTMDAOGovernorABI = [
             }
         ]
     },
+    {
+        "type": "error",
+        "name": "GovernorInvalidQuorumTooLarge",
+        "inputs": [
+            {
+                "name": "quorumNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "superQuorumNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ]
+    },
     {
         "type": "error",
         "name": "GovernorInvalidSignature",
@@ -1699,6 +1961,38 @@ export const CTMDAOGovernorABI = [
             }
         ]
     },
+    {
+        "type": "error",
+        "name": "GovernorInvalidSuperQuorumFraction",
+        "inputs": [
+            {
+                "name": "superQuorumNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "denominator",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ]
+    },
+    {
+        "type": "error",
+        "name": "GovernorInvalidSuperQuorumTooSmall",
+        "inputs": [
+            {
+                "name": "superQuorumNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            },
+            {
+                "name": "quorumNumerator",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ]
+    },
     {
         "type": "error",
         "name": "GovernorInvalidVoteParams",
@@ -1870,4 +2164,6 @@ export const CTMDAOGovernorABI = [
             }
         ]
     }
-]
\ No newline at end of file
+] as const
+
+export type CTMDAOGovernorAbi = typeof CTMDAOGovernorABI
@@ -3,7 +3,7 @@ export const NodePropertiesABI = [
         "type": "constructor",
         "inputs": [
             {
-                "name": "_governor",
+                "name": "_gov",
                 "type": "address",
                 "internalType": "address"
             },
@@ -27,7 +27,7 @@ export const NodePropertiesABI = [
             {
                 "name": "_nodeInfo",
                 "type": "tuple",
-                "internalType": "struct NodeProperties.NodeInfo",
+                "internalType": "struct INodeProperties.NodeInfo",
                 "components": [
                     {
                         "name": "forumHandle",
@@ -45,10 +45,15 @@ export const NodePropertiesABI = [
                         "internalType": "bytes32"
                     },
                     {
-                        "name": "ip",
+                        "name": "ipv4",
                         "type": "uint8[4]",
                         "internalType": "uint8[4]"
                     },
+                    {
+                        "name": "ipv6",
+                        "type": "uint16[8]",
+                        "internalType": "uint16[8]"
+                    },
                     {
                         "name": "vpsProvider",
                         "type": "string",
@@ -138,7 +143,7 @@ export const NodePropertiesABI = [
     },
     {
         "type": "function",
-        "name": "governor",
+        "name": "gov",
         "inputs": [],
         "outputs": [
             {
@@ -149,19 +154,6 @@ export const NodePropertiesABI = [
         ],
         "stateMutability": "view"
     },
-    {
-        "type": "function",
-        "name": "initContracts",
-        "inputs": [
-            {
-                "name": "_rewards",
-                "type": "address",
-                "internalType": "address"
-            }
-        ],
-        "outputs": [],
-        "stateMutability": "nonpayable"
-    },
     {
         "type": "function",
         "name": "nodeInfo",
@@ -181,7 +173,7 @@ export const NodePropertiesABI = [
             {
                 "name": "",
                 "type": "tuple",
-                "internalType": "struct NodeProperties.NodeInfo",
+                "internalType": "struct INodeProperties.NodeInfo",
                 "components": [
                     {
                         "name": "forumHandle",
@@ -199,10 +191,15 @@ export const NodePropertiesABI = [
                         "internalType": "bytes32"
                     },
                     {
-                        "name": "ip",
+                        "name": "ipv4",
                         "type": "uint8[4]",
                         "internalType": "uint8[4]"
                     },
+                    {
+                        "name": "ipv6",
+                        "type": "uint16[8]",
+                        "internalType": "uint16[8]"
+                    },
                     {
                         "name": "vpsProvider",
                         "type": "string",
@@ -324,8 +321,8 @@ export const NodePropertiesABI = [
             },
             {
                 "name": "_nodeQualityOf",
-                "type": "uint256",
-                "internalType": "uint256"
+                "type": "uint8",
+                "internalType": "uint8"
             }
         ],
         "outputs": [],
@@ -349,6 +346,19 @@ export const NodePropertiesABI = [
         "outputs": [],
         "stateMutability": "nonpayable"
     },
+    {
+        "type": "function",
+        "name": "setRewards",
+        "inputs": [
+            {
+                "name": "_rewards",
+                "type": "address",
+                "internalType": "address"
+            }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
     {
         "type": "function",
         "name": "ve",
@@ -400,6 +410,87 @@ export const NodePropertiesABI = [
         ],
         "anonymous": false
     },
+    {
+        "type": "event",
+        "name": "NodeQualityUpdated",
+        "inputs": [
+            {
+                "name": "_tokenId",
+                "type": "uint256",
+                "indexed": true,
+                "internalType": "uint256"
+            },
+            {
+                "name": "_nodeId",
+                "type": "bytes32",
+                "indexed": true,
+                "internalType": "bytes32"
+            },
+            {
+                "name": "_oldQuality",
+                "type": "uint256",
+                "indexed": false,
+                "internalType": "uint256"
+            },
+            {
+                "name": "_newQuality",
+                "type": "uint256",
+                "indexed": false,
+                "internalType": "uint256"
+            }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "NodeRemovalStatusUpdated",
+        "inputs": [
+            {
+                "name": "_tokenId",
+                "type": "uint256",
+                "indexed": true,
+                "internalType": "uint256"
+            },
+            {
+                "name": "_oldStatus",
+                "type": "bool",
+                "indexed": false,
+                "internalType": "bool"
+            },
+            {
+                "name": "_newStatus",
+                "type": "bool",
+                "indexed": false,
+                "internalType": "bool"
+            },
+            {
+                "name": "_sender",
+                "type": "address",
+                "indexed": true,
+                "internalType": "address"
+            }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "RewardsUpdated",
+        "inputs": [
+            {
+                "name": "_oldRewards",
+                "type": "address",
+                "indexed": false,
+                "internalType": "address"
+            },
+            {
+                "name": "_newRewards",
+                "type": "address",
+                "indexed": false,
+                "internalType": "address"
+            }
+        ],
+        "anonymous": false
+    },
     {
         "type": "error",
         "name": "CheckpointUnorderedInsertion",
@@ -508,4 +599,6 @@ export const NodePropertiesABI = [
             }
         ]
     }
-]
\ No newline at end of file
+] as const
+
+export type NodePropertiesAbi = typeof NodePropertiesABI
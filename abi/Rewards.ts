@@ -27,21 +27,11 @@ export const RewardsABI = [
                 "type": "address",
                 "internalType": "address"
             },
-            {
-                "name": "_swapRouter",
-                "type": "address",
-                "internalType": "address"
-            },
             {
                 "name": "_nodeProperties",
                 "type": "address",
                 "internalType": "address"
             },
-            {
-                "name": "_weth",
-                "type": "address",
-                "internalType": "address"
-            },
             {
                 "name": "_baseEmissionRate",
                 "type": "uint256",
@@ -70,45 +60,6 @@ export const RewardsABI = [
         ],
         "stateMutability": "nonpayable"
     },
-    {
-        "type": "function",
-        "name": "MULTIPLIER",
-        "inputs": [],
-        "outputs": [
-            {
-                "name": "",
-                "type": "uint256",
-                "internalType": "uint256"
-            }
-        ],
-        "stateMutability": "view"
-    },
-    {
-        "type": "function",
-        "name": "ONE_DAY",
-        "inputs": [],
-        "outputs": [
-            {
-                "name": "",
-                "type": "uint48",
-                "internalType": "uint48"
-            }
-        ],
-        "stateMutability": "view"
-    },
-    {
-        "type": "function",
-        "name": "WETH",
-        "inputs": [],
-        "outputs": [
-            {
-                "name": "",
-                "type": "address",
-                "internalType": "address"
-            }
-        ],
-        "stateMutability": "view"
-    },
     {
         "type": "function",
         "name": "baseEmissionRate",
@@ -471,84 +422,6 @@ export const RewardsABI = [
         "outputs": [],
         "stateMutability": "nonpayable"
     },
-    {
-        "type": "function",
-        "name": "setRewardToken",
-        "inputs": [
-            {
-                "name": "_rewardToken",
-                "type": "address",
-                "internalType": "address"
-            },
-            {
-                "name": "_firstMidnight",
-                "type": "uint48",
-                "internalType": "uint48"
-            },
-            {
-                "name": "_recipient",
-                "type": "address",
-                "internalType": "address"
-            }
-        ],
-        "outputs": [],
-        "stateMutability": "nonpayable"
-    },
-    {
-        "type": "function",
-        "name": "setSwapEnabled",
-        "inputs": [
-            {
-                "name": "_enabled",
-                "type": "bool",
-                "internalType": "bool"
-            }
-        ],
-        "outputs": [],
-        "stateMutability": "nonpayable"
-    },
-    {
-        "type": "function",
-        "name": "swapFeeToReward",
-        "inputs": [
-            {
-                "name": "_amountIn",
-                "type": "uint256",
-                "internalType": "uint256"
-            },
-            {
-                "name": "_uniFeeWETH",
-                "type": "uint256",
-                "internalType": "uint256"
-            },
-            {
-                "name": "_uniFeeReward",
-                "type": "uint256",
-                "internalType": "uint256"
-            }
-        ],
-        "outputs": [
-            {
-                "name": "_amountOut",
-                "type": "uint256",
-                "internalType": "uint256"
-            }
-        ],
-        "stateMutability": "nonpayable"
-    },
-    {
-        "type": "function",
-        "name": "swapRouter",
-        "inputs": [],
-        "outputs": [
-            {
-                "name": "",
-                "type": "address",
-                "internalType": "address"
-            }
-        ],
-        "stateMutability": "view"
-    },
     {
         "type": "function",
         "name": "unclaimedRewards",
@@ -613,7 +486,7 @@ export const RewardsABI = [
     },
     {
         "type": "event",
-        "name": "BaseEmissionRateChange",
+        "name": "BaseEmissionRateUpdated",
         "inputs": [
             {
                 "name": "_oldBaseEmissionRate",
@@ -657,19 +530,25 @@ export const RewardsABI = [
     },
     {
         "type": "event",
-        "name": "FeeTokenChange",
+        "name": "FeeUpdated",
         "inputs": [
             {
-                "name": "_oldFeeToken",
-                "type": "address",
+                "name": "_tokenType",
+                "type": "uint8",
                 "indexed": true,
-                "internalType": "address"
+                "internalType": "enum IRewards.Token"
             },
             {
-                "name": "_newFeeToken",
-                "type": "address",
-                "indexed": true,
-                "internalType": "address"
+                "name": "oldFee",
+                "type": "uint256",
+                "indexed": false,
+                "internalType": "uint256"
+            },
+            {
+                "name": "_fee",
+                "type": "uint256",
+                "indexed": false,
+                "internalType": "uint256"
             }
         ],
         "anonymous": false
@@ -701,7 +580,7 @@ export const RewardsABI = [
     },
     {
         "type": "event",
-        "name": "NodeEmissionRateChange",
+        "name": "NodeEmissionRateUpdated",
         "inputs": [
             {
                 "name": "_oldNodeEmissionRate",
@@ -720,16 +599,16 @@ export const RewardsABI = [
     },
     {
         "type": "event",
-        "name": "NodeRewardThresholdChange",
+        "name": "NodeRewardThresholdUpdated",
         "inputs": [
             {
-                "name": "_oldMinimumThreshold",
+                "name": "_oldNodeRewardThreshold",
                 "type": "uint256",
                 "indexed": false,
                 "internalType": "uint256"
             },
             {
-                "name": "_newMinimumThreshold",
+                "name": "_newNodeRewardThreshold",
                 "type": "uint256",
                 "indexed": false,
                 "internalType": "uint256"
@@ -739,50 +618,25 @@ export const RewardsABI = [
     },
     {
         "type": "event",
-        "name": "RewardTokenChange",
+        "name": "TokenUpdated",
         "inputs": [
             {
-                "name": "_oldRewardToken",
-                "type": "address",
+                "name": "_tokenType",
+                "type": "uint8",
                 "indexed": true,
-                "internalType": "address"
+                "internalType": "enum IRewards.Token"
             },
             {
-                "name": "_newRewardToken",
-                "type": "address",
-                "indexed": true,
-                "internalType": "address"
-            }
-        ],
-        "anonymous": false
-    },
-    {
-        "type": "event",
-        "name": "Swap",
-        "inputs": [
-            {
-                "name": "_feeToken",
+                "name": "_oldToken",
                 "type": "address",
-                "indexed": true,
+                "indexed": false,
                 "internalType": "address"
             },
             {
-                "name": "_rewardToken",
+                "name": "_newToken",
                 "type": "address",
-                "indexed": true,
-                "internalType": "address"
-            },
-            {
-                "name": "_amountIn",
-                "type": "uint256",
                 "indexed": false,
-                "internalType": "uint256"
-            },
-            {
-                "name": "_amountOut",
-                "type": "uint256",
-                "indexed": false,
-                "internalType": "uint256"
+                "internalType": "address"
             }
         ],
         "anonymous": false
@@ -875,16 +729,6 @@ export const RewardsABI = [
             }
         ]
     },
-    {
-        "type": "error",
-        "name": "Rewards_SwapDisabled",
-        "inputs": []
-    },
-    {
-        "type": "error",
-        "name": "Rewards_TransferFailed",
-        "inputs": []
-    },
     {
         "type": "error",
         "name": "SafeCastOverflowedUintDowncast",
@@ -900,5 +744,18 @@ export const RewardsABI = [
                 "internalType": "uint256"
             }
         ]
+    },
+    {
+        "type": "error",
+        "name": "SafeERC20FailedOperation",
+        "inputs": [
+            {
+                "name": "token",
+                "type": "address",
+                "internalType": "address"
+            }
+        ]
     }
-]
\ No newline at end of file
+] as const
+
+export type RewardsAbi = typeof RewardsABI
@@ -731,6 +731,19 @@ export const VotingEscrowABI = [
         "outputs": [],
         "stateMutability": "nonpayable"
     },
+    {
+        "type": "function",
+        "name": "minimumLock",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "stateMutability": "view"
+    },
     {
         "type": "function",
         "name": "name",
@@ -1003,6 +1016,19 @@ export const VotingEscrowABI = [
         "outputs": [],
         "stateMutability": "nonpayable"
     },
+    {
+        "type": "function",
+        "name": "setMinimumLock",
+        "inputs": [
+            {
+                "name": "_min",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
     {
         "type": "function",
         "name": "slope_changes",
@@ -1794,6 +1820,17 @@ export const VotingEscrowABI = [
             }
         ]
     },
+    {
+        "type": "error",
+        "name": "SafeERC20FailedOperation",
+        "inputs": [
+            {
+                "name": "token",
+                "type": "address",
+                "internalType": "address"
+            }
+        ]
+    },
     {
         "type": "error",
         "name": "UUPSUnauthorizedCallContext",
@@ -1874,22 +1911,6 @@ export const VotingEscrowABI = [
             }
         ]
     },
-    {
-        "type": "error",
-        "name": "VotingEscrow_InvalidMerge",
-        "inputs": [
-            {
-                "name": "_from",
-                "type": "uint256",
-                "internalType": "uint256"
-            },
-            {
-                "name": "_to",
-                "type": "uint256",
-                "internalType": "uint256"
-            }
-        ]
-    },
     {
         "type": "error",
         "name": "VotingEscrow_InvalidUnlockTime",
@@ -1938,6 +1959,17 @@ export const VotingEscrowABI = [
         "name": "VotingEscrow_LiquidationsDisabled",
         "inputs": []
     },
+    {
+        "type": "error",
+        "name": "VotingEscrow_LockBelowMin",
+        "inputs": [
+            {
+                "name": "_value",
+                "type": "uint256",
+                "internalType": "uint256"
+            }
+        ]
+    },
     {
         "type": "error",
         "name": "VotingEscrow_LockExpired",
@@ -2018,11 +2050,6 @@ export const VotingEscrowABI = [
             }
         ]
     },
-    {
-        "type": "error",
-        "name": "VotingEscrow_TransferFailed",
-        "inputs": []
-    },
     {
         "type": "error",
         "name": "VotingEscrow_Unauthorized",
@@ -2066,4 +2093,6 @@ export const VotingEscrowABI = [
             }
         ]
     }
-]
\ No newline at end of file
+] as const
+
+export type VotingEscrowAbi = typeof VotingEscrowABI
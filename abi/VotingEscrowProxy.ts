@@ -81,4 +81,6 @@ export const VotingEscrowProxyABI = [
         "name": "FailedCall",
         "inputs": []
     }
-]
\ No newline at end of file
+] as const
+
+export type VotingEscrowProxyAbi = typeof VotingEscrowProxyABI
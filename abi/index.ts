@@ -0,0 +1,7 @@
+export * from "./CTM"
+export * from "./CTMHome"
+export * from "./VotingEscrowProxy"
+export * from "./VotingEscrow"
+export * from "./CTMDAOGovernor"
+export * from "./NodeProperties"
+export * from "./Rewards"
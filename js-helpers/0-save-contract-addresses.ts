@@ -0,0 +1,105 @@
+import { writeFileSync } from "fs"
+import path from "path"
+
+import { ContractKey } from "../sdk/deployments"
+import { DeployedContract, findDeployment, readBroadcasts } from "./lib/broadcast"
+
+// Usage: npx tsx js-helpers/0-save-contract-addresses.ts
+// Reads every run of every script in broadcast/ and writes the latest address of each contract per chain to
+// contract-addresses.json, and where, when and by whom it was deployed to contract-deployments.json.
+
+interface DeploymentRecord {
+    contractName: string
+    address: string
+    blockNumber: number | null
+    transactionHash: string
+    deployer: string
+    script: string
+    commit: string | null
+    implementation?: string
+}
+
+// the governor is deployed as ContinuumDAO, but older broadcasts name it CTMDAOGovernor
+const CONTRACT_KEYS: Record<string, ContractKey> = {
+    CTM: "ctm",
+    CTMHome: "ctm",
+    VotingEscrowProxy: "votingEscrowProxy",
+    CTMDAOGovernor: "ctmDAOGovernor",
+    ContinuumDAO: "ctmDAOGovernor",
+    NodeProperties: "nodeProperties",
+    Rewards: "rewards"
+}
+
+const root = path.join(__dirname, "..")
+const broadcastDir = path.join(root, "broadcast")
+
+let deployments: DeployedContract[]
+
+try {
+    ({ deployments } = readBroadcasts(broadcastDir))
+} catch (error) {
+    console.error(`Error: ${(error as Error).message}`)
+    process.exit(1)
+}
+
+const records: Record<string, Partial<Record<ContractKey, DeploymentRecord>>> = {}
+
+function record(deployment: DeployedContract): DeploymentRecord {
+    return {
+        contractName: deployment.name!,
+        address: deployment.address,
+        blockNumber: deployment.blockNumber,
+        transactionHash: deployment.transactionHash,
+        deployer: deployment.deployer,
+        script: deployment.script,
+        commit: deployment.commit,
+        ...(deployment.implementation && { implementation: deployment.implementation })
+    }
+}
+
+// deployments are in chronological order, so later runs overwrite earlier ones
+for (const deployment of deployments) {
+    const key = deployment.name && CONTRACT_KEYS[deployment.name]
+    if (!key) continue
+
+    const chain = (records[deployment.chainId] ??= {})
+    chain[key] = record(deployment)
+
+    // the implementation is whichever contract the proxy was constructed with, not the last one deployed
+    if (key === "votingEscrowProxy") {
+        const implementation = deployment.implementation && findDeployment(deployments, deployment.chainId, deployment.implementation)
+
+        if (implementation) {
+            chain.votingEscrowImpl = record(implementation)
+        } else {
+            console.warn(`Warning: no implementation found for ${deployment.name} ${deployment.address} on chain ID ${deployment.chainId}`)
+            delete chain.votingEscrowImpl
+        }
+    }
+}
+
+const chainIds = Object.keys(records)
+
+if (chainIds.length === 0) {
+    console.error(`Error: No deployments found in ${broadcastDir}`)
+    process.exit(1)
+}
+
+const addresses = Object.fromEntries(
+    chainIds.map(chainId => [
+        chainId,
+        Object.fromEntries(Object.entries(records[chainId]).map(([key, deployment]) => [key, deployment!.address]))
+    ])
+)
+
+writeFileSync(path.join(root, "contract-addresses.json"), JSON.stringify(addresses, null, 2))
+writeFileSync(path.join(root, "contract-deployments.json"), JSON.stringify(records, null, 2))
+
+chainIds.forEach(chainId => {
+    console.log(`Chain ID ${chainId}:`)
+    Object.entries(records[chainId]).forEach(([key, deployment]) =>
+        console.log(`  ${key}: ${deployment!.address} (block ${deployment!.blockNumber ?? "unknown"}, ${deployment!.script})`)
+    )
+})
+
+console.log("Output files: contract-addresses.json, contract-deployments.json")
@@ -0,0 +1,63 @@
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import path from "path"
+
+import { abiTargets, AbiTarget, artifactPath } from "./abi.config"
+
+// Usage: npx tsx js-helpers/1-write-abi.ts [--check]
+// Writes one module per contract in abi.config.ts to abi/, plus the abi/index.ts barrel. Run `forge build` first.
+// With --check, nothing is written: the existing modules are compared against the artifacts instead and the
+// script exits with a non-zero code if any of them is missing or out of date.
+
+const root = path.join(__dirname, "..")
+const abiDir = path.join(root, "abi")
+const check = process.argv.includes("--check")
+
+function renderModule(target: AbiTarget, abi: unknown): string {
+    // `as const` keeps the literal types so that viem/abitype can infer function names, args and return tuples
+    return `export const ${target.name}ABI = ${JSON.stringify(abi, null, 4)} as const\n\nexport type ${target.name}Abi = typeof ${target.name}ABI\n`
+}
+
+function renderBarrel(targets: AbiTarget[]): string {
+    return targets.map(target => `export * from "./${target.name}"\n`).join("")
+}
+
+const missing = abiTargets.filter(target => !existsSync(path.join(root, artifactPath(target))))
+
+if (missing.length !== 0) {
+    console.error("Error: forge artifacts not found")
+    missing.forEach(target => console.error(`  ${target.name}: expected ${artifactPath(target)} (${target.contract} in ${target.source})`))
+    console.error("Run `forge build` (or ./helpers/3-build-src.sh) and try again.")
+    process.exit(1)
+}
+
+const outputs = new Map<string, string>()
+
+for (const target of abiTargets) {
+    const artifact = JSON.parse(readFileSync(path.join(root, artifactPath(target)), "utf8"))
+    if (!Array.isArray(artifact.abi)) {
+        console.error(`Error: ${artifactPath(target)} does not contain an ABI`)
+        process.exit(1)
+    }
+    outputs.set(`${target.name}.ts`, renderModule(target, artifact.abi))
+}
+
+outputs.set("index.ts", renderBarrel(abiTargets))
+
+if (check) {
+    const stale = [...outputs].filter(([file, content]) => {
+        const existing = path.join(abiDir, file)
+        return !existsSync(existing) || readFileSync(existing, "utf8") !== content
+    })
+
+    if (stale.length !== 0) {
+        console.error("ABI modules are out of date with the forge artifacts:")
+        stale.forEach(([file]) => console.error(`  abi/${file}${existsSync(path.join(abiDir, file)) ? "" : " (missing)"}`))
+        console.error("Run `npx tsx js-helpers/1-write-abi.ts` to regenerate them.")
+        process.exit(1)
+    }
+
+    console.log(`All ${outputs.size} ABI modules are up to date`)
+} else {
+    outputs.forEach((content, file) => writeFileSync(path.join(abiDir, file), content))
+    console.log(`Wrote ${[...outputs.keys()].map(file => `abi/${file}`).join(", ")}`)
+}
@@ -0,0 +1,58 @@
+import { existsSync, readFileSync } from "fs"
+import path from "path"
+
+import * as abis from "../abi"
+import { abiTargets, artifactPath } from "./abi.config"
+import { ContractDrift, diffAbi, formatDrift, FULL_COVERAGE, hasDrift } from "./lib/abi-diff"
+import { AbiItem, SolidityProject } from "./lib/solidity"
+
+// Usage: npx tsx js-helpers/2-check-abi-drift.ts [--json]
+// Compares every module in abi/ against the forge artifact in out/ when it exists, or against the Solidity sources
+// in src/ otherwise. Exits with a non-zero code if any module has drifted.
+
+const root = path.join(__dirname, "..")
+
+const json = process.argv.includes("--json")
+const project = new SolidityProject()
+const reports: ContractDrift[] = []
+
+for (const target of abiTargets) {
+    const { name, source, contract } = target
+    const abi = (abis as Record<string, readonly AbiItem[]>)[`${name}ABI`]
+    const artifact = path.join(root, artifactPath(target))
+
+    if (!abi) {
+        console.error(`Error: abi/${name}.ts does not exist, run \`npx tsx js-helpers/1-write-abi.ts\` first`)
+        process.exit(1)
+    }
+
+    if (existsSync(artifact)) {
+        const { abi: expected } = JSON.parse(readFileSync(artifact, "utf8"))
+        reports.push(diffAbi(name, abi, expected, "artifact", FULL_COVERAGE))
+    } else {
+        project.load(path.join(root, source))
+        const surface = project.surface(contract)
+        // errors raised inside external libraries (SafeCast, Checkpoints, ...) are part of the ABI but not of src/
+        const coverage = {
+            function: surface.complete,
+            event: surface.complete,
+            error: surface.complete && surface.externalImports.length === 0
+        }
+        reports.push(diffAbi(name, abi, surface.items, "source", coverage))
+    }
+}
+
+if (json) {
+    console.log(JSON.stringify(reports, null, 2))
+} else {
+    reports.forEach(report => console.log(formatDrift(report) + "\n"))
+}
+
+const drifted = reports.filter(hasDrift)
+
+if (drifted.length !== 0) {
+    console.error(`ABI drift detected in: ${drifted.map(report => report.contract).join(", ")}`)
+    process.exit(1)
+}
+
+console.log("All ABI modules match their contracts")
@@ -0,0 +1,78 @@
+import path from "path"
+
+import { readBroadcasts } from "./lib/broadcast"
+import { buildLedger, liveAt } from "./lib/ledger"
+
+// Usage: npx tsx js-helpers/3-deployment-ledger.ts [--chain <chainId>] [--at <date|unix timestamp>] [--json]
+// Prints every deployment and proxy upgrade found in all runs in broadcast/, oldest first, with the commit each run
+// was made from. With --at, prints the contracts that were live at that time instead, including the implementation
+// each proxy pointed at.
+
+const root = path.join(__dirname, "..")
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(name)
+    return index === -1 ? undefined : process.argv[index + 1]
+}
+
+function parseTime(value: string): number {
+    const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value) / 1000
+    if (Number.isNaN(timestamp)) {
+        console.error(`Error: invalid --at value "${value}", expected an ISO date or a unix timestamp`)
+        process.exit(1)
+    }
+    return Math.floor(timestamp)
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp * 1000).toISOString()
+
+const json = process.argv.includes("--json")
+const chain = option("--chain")
+const at = option("--at")
+
+let ledger
+
+try {
+    ledger = buildLedger(readBroadcasts(path.join(root, "broadcast")))
+} catch (error) {
+    console.error(`Error: ${(error as Error).message}`)
+    process.exit(1)
+}
+
+const chainIds = [...new Set(ledger.entries.map(entry => entry.chainId))].filter(chainId => !chain || chainId === Number(chain))
+
+if (chainIds.length === 0) {
+    console.error(`Error: no deployments found${chain ? ` for chain ID ${chain}` : ""}`)
+    process.exit(1)
+}
+
+if (at) {
+    const timestamp = parseTime(at)
+    const live = Object.fromEntries(chainIds.map(chainId => [chainId, liveAt(ledger, chainId, timestamp)]))
+
+    if (json) {
+        console.log(JSON.stringify(live, null, 2))
+    } else {
+        chainIds.forEach(chainId => {
+            console.log(`Chain ID ${chainId} at ${formatTime(timestamp)}:`)
+            live[chainId].forEach(contract => {
+                const implementation = contract.implementation ? ` -> ${contract.implementationName ?? "unknown"} ${contract.implementation}` : ""
+                console.log(`  ${contract.contractName}: ${contract.address}${implementation} (deployed ${formatTime(contract.deployedAt)}, commit ${contract.commit ?? "unknown"})`)
+            })
+        })
+    }
+} else {
+    const entries = ledger.entries.filter(entry => chainIds.includes(entry.chainId))
+
+    if (json) {
+        console.log(JSON.stringify({ entries, proxies: ledger.proxies.filter(history => chainIds.includes(history.chainId)) }, null, 2))
+    } else {
+        entries.forEach(entry => {
+            const implementation = entry.implementation ? ` -> ${entry.implementationName ?? "unknown"} ${entry.implementation}` : ""
+            console.log(
+                `${formatTime(entry.timestamp)}  ${entry.chainId}  ${entry.commit ?? "unknown"}  ${entry.kind.padEnd(10)}  ` +
+                `${entry.contractName ?? "unknown"} ${entry.address}${implementation}  (block ${entry.blockNumber ?? "unknown"}, ${entry.runFile})`
+            )
+        })
+    }
+}
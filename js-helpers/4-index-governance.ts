@@ -0,0 +1,68 @@
+import path from "path"
+import { Address, createPublicClient, http } from "viem"
+
+import { getDeployment } from "../sdk/deployments"
+import { GOVERNANCE_TABLES, indexGovernance, openGovernanceStore } from "./lib/governance-indexer"
+
+// Usage: npx tsx js-helpers/4-index-governance.ts [--rpc <url>] [--db <file>] [--governor <address>] [--from <block>]
+//        [--to <block>] [--confirmations <blocks>]
+// Indexes every proposal, vote and governance parameter change of the governor into a local SQLite database,
+// resuming from where the previous run stopped. The RPC defaults to $RPC_URL, e.g. an anvil node at
+// http://127.0.0.1:8545. The governor and the first block default to the deployment registered for the RPC's chain.
+
+const root = path.join(__dirname, "..")
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(name)
+    return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+    const rpc = option("--rpc") ?? process.env.RPC_URL
+    if (!rpc) {
+        console.error("Error: pass --rpc <url> or set RPC_URL")
+        process.exit(1)
+    }
+
+    const client = createPublicClient({ transport: http(rpc) })
+    const chainId = await client.getChainId()
+
+    let governor = option("--governor") as Address | undefined
+    let fromBlock = option("--from") !== undefined ? BigInt(option("--from")!) : undefined
+
+    if (!governor || fromBlock === undefined) {
+        const { ctmDAOGovernor } = getDeployment(chainId)
+        governor ??= ctmDAOGovernor.address
+        fromBlock ??= ctmDAOGovernor.blockNumber ?? 0n
+    }
+
+    const file = option("--db") ?? path.join(root, `governance-${chainId}.sqlite`)
+    const db = openGovernanceStore(file)
+
+    const result = await indexGovernance({
+        client,
+        db,
+        governor,
+        fromBlock,
+        toBlock: option("--to") !== undefined ? BigInt(option("--to")!) : undefined,
+        confirmations: BigInt(option("--confirmations") ?? 0),
+        onProgress: (toBlock, logs) => console.log(`  indexed up to block ${toBlock} (${logs} logs)`)
+    })
+
+    if (result.rolledBackTo !== undefined) {
+        console.log(`Reorg detected: rolled back to block ${result.rolledBackTo}`)
+    }
+    console.log(`Indexed ${result.logs} logs of ${governor} from block ${result.fromBlock} to ${result.toBlock} into ${path.relative(root, file)}`)
+
+    GOVERNANCE_TABLES.forEach(table => {
+        const { count } = db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }
+        console.log(`  ${table}: ${count}`)
+    })
+
+    db.close()
+}
+
+main().catch(error => {
+    console.error(`Error: ${(error as Error).message}`)
+    process.exit(1)
+})
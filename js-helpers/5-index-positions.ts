@@ -0,0 +1,95 @@
+import path from "path"
+import { Address, createPublicClient, formatEther, http } from "viem"
+
+import { getDeployment } from "../sdk/deployments"
+import { indexPositions, lineage, liveLocks, openPositionStore, tokenTimeline } from "./lib/position-indexer"
+
+// Usage: npx tsx js-helpers/5-index-positions.ts [--rpc <url>] [--db <file>] [--voting-escrow <address>] [--from <block>]
+//        [--to <block>] [--confirmations <blocks>] [--owner <address>] [--token <tokenId>] [--no-sync]
+// Indexes every veCTM lock into a local SQLite database, resuming from where the previous run stopped, then prints
+// the live locks of --owner, or the history and split/merge lineage of --token. The RPC defaults to $RPC_URL. The
+// VotingEscrow proxy and the first block default to the deployment registered for the RPC's chain.
+
+const root = path.join(__dirname, "..")
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(name)
+    return index === -1 ? undefined : process.argv[index + 1]
+}
+
+const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString()
+
+async function main() {
+    const rpc = option("--rpc") ?? process.env.RPC_URL
+    if (!rpc) {
+        console.error("Error: pass --rpc <url> or set RPC_URL")
+        process.exit(1)
+    }
+
+    const client = createPublicClient({ transport: http(rpc) })
+    const chainId = await client.getChainId()
+
+    let votingEscrow = option("--voting-escrow") as Address | undefined
+    let fromBlock = option("--from") !== undefined ? BigInt(option("--from")!) : undefined
+
+    if (!votingEscrow || fromBlock === undefined) {
+        const deployment = getDeployment(chainId)
+        votingEscrow ??= deployment.votingEscrow.address
+        fromBlock ??= deployment.votingEscrow.blockNumber ?? 0n
+    }
+
+    const file = option("--db") ?? path.join(root, `positions-${chainId}.sqlite`)
+    const db = openPositionStore(file)
+
+    if (!process.argv.includes("--no-sync")) {
+        const result = await indexPositions({
+            client,
+            db,
+            votingEscrow,
+            fromBlock,
+            toBlock: option("--to") !== undefined ? BigInt(option("--to")!) : undefined,
+            confirmations: BigInt(option("--confirmations") ?? 0),
+            onProgress: (toBlock, logs) => console.log(`  indexed up to block ${toBlock} (${logs} logs)`)
+        })
+
+        if (result.rolledBackTo !== undefined) {
+            console.log(`Reorg detected: rolled back to block ${result.rolledBackTo}`)
+        }
+        console.log(`Indexed ${result.logs} logs of ${votingEscrow} from block ${result.fromBlock} to ${result.toBlock} into ${path.relative(root, file)}`)
+    }
+
+    const owner = option("--owner") as Address | undefined
+    if (owner) {
+        const locks = liveLocks(db, owner)
+        console.log(`\nLive locks of ${owner}: ${locks.length}`)
+        locks.forEach(lock => {
+            console.log(`  #${lock.tokenId}  ${formatEther(lock.amount)} CTM until ${formatTime(lock.end)}${lock.nonVoting ? "  (non-voting)" : ""}`)
+        })
+    }
+
+    const token = option("--token")
+    if (token) {
+        const tokenId = BigInt(token)
+        console.log(`\nHistory of token ${tokenId}:`)
+        tokenTimeline(db, tokenId).forEach(state => {
+            const value = state.value !== undefined ? `  value ${formatEther(state.value)}` : ""
+            const penalty = state.penalty !== undefined ? `  penalty ${formatEther(state.penalty)}` : ""
+            console.log(
+                `  ${formatTime(state.timestamp)}  ${state.event.padEnd(9)}  ${state.status.padEnd(10)}  ${formatEther(state.amount)} CTM ` +
+                `until ${formatTime(state.end)}  owner ${state.owner}${value}${penalty}`
+            )
+        })
+        console.log(`\nLineage of token ${tokenId}:`)
+        lineage(db, tokenId).forEach(edge => {
+            const detail = edge.kind === "split" ? `split ${formatEther(edge.value ?? 0n)} CTM off into` : "merged into"
+            console.log(`  ${formatTime(edge.timestamp)}  #${edge.parentId} ${detail} #${edge.childId}`)
+        })
+    }
+
+    db.close()
+}
+
+main().catch(error => {
+    console.error(`Error: ${(error as Error).message}`)
+    process.exit(1)
+})
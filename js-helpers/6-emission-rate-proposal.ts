@@ -0,0 +1,85 @@
+import { createPublicClient, http, parseUnits } from "viem"
+
+import { getDeployment } from "../sdk/deployments"
+import {
+    buildEmissionRateDeltaProposal,
+    buildEmissionRateSchedule,
+    EmissionRateKind,
+    formatEmissionRate
+} from "../sdk/governance/emissionRateProposal"
+import { fetchRewardRates } from "../sdk/node/rewardsProjection"
+
+// Usage: npx tsx js-helpers/6-emission-rate-proposal.ts --kind <base|node> (--target <rate> [--max-step <rate>] |
+//        --candidates <rate,...>) [--rpc <url>] [--title <text>]
+// Reads the current base or node emission rate and prints the governor proposals to move it: one proposal per step
+// up to --target, or a single Delta proposal choosing between the current rate and each of --candidates. Rates are
+// MULTIPLIER-scaled integers, or daily percentages such as 0.05%. The RPC defaults to $RPC_URL. Nothing is sent:
+// each proposal is printed as the arguments of `propose(targets, values, calldatas, description)`.
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(name)
+    return index === -1 ? undefined : process.argv[index + 1]
+}
+
+function parseRate(value: string): bigint {
+    return value.endsWith("%") ? parseUnits(value.slice(0, -1), 18) / 100n : BigInt(value)
+}
+
+const json = (value: unknown) => JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 4)
+
+async function main() {
+    const rpc = option("--rpc") ?? process.env.RPC_URL
+    const kind = option("--kind") as EmissionRateKind | undefined
+    const target = option("--target")
+    const candidates = option("--candidates")
+
+    if (!rpc || (kind !== "base" && kind !== "node") || (target === undefined) === (candidates === undefined)) {
+        console.error("Error: pass --rpc <url> (or set RPC_URL), --kind <base|node>, and either --target or --candidates")
+        process.exit(1)
+    }
+
+    const client = createPublicClient({ transport: http(rpc) })
+    const deployment = getDeployment(await client.getChainId())
+    const rewards = deployment.rewards.address
+    const governor = deployment.ctmDAOGovernor.address
+
+    const rates = await fetchRewardRates(client, deployment)
+    const current = kind === "base" ? rates.baseEmissionRate : rates.nodeEmissionRate
+    console.log(`Current ${kind} emission rate: ${formatEmissionRate(current)} (${current})`)
+    console.log(`Proposals to submit to CTMDAOGovernor at ${governor}:`)
+
+    if (target !== undefined) {
+        const maxStep = option("--max-step")
+        const steps = buildEmissionRateSchedule({
+            rewards,
+            kind,
+            current,
+            target: parseRate(target),
+            maxStep: maxStep !== undefined ? parseRate(maxStep) : undefined,
+            title: option("--title")
+        })
+        if (steps.length === 0) {
+            console.log("The rate is already at the target")
+        }
+        steps.forEach(({ step, proposal }) => {
+            console.log(`\nStep ${step} of ${steps.length}, proposal ${proposal.proposalId}`)
+            console.log(json(proposal.request.args))
+        })
+    } else {
+        const proposal = buildEmissionRateDeltaProposal(
+            rewards,
+            kind,
+            current,
+            candidates!.split(",").map(parseRate),
+            option("--title") ?? `Choose the ${kind} emission rate`
+        )
+        console.log(`\nDelta proposal ${proposal.proposalId}`)
+        proposal.options.forEach(({ index, name }) => console.log(`  option ${index}: ${name}`))
+        console.log(json(proposal.request.args))
+    }
+}
+
+main().catch(error => {
+    console.error(`Error: ${(error as Error).message}`)
+    process.exit(1)
+})
@@ -0,0 +1,114 @@
+import { writeFileSync } from "fs"
+import path from "path"
+import { Address, createPublicClient, erc20Abi, formatUnits, http } from "viem"
+
+import { getDeployment } from "../sdk/deployments"
+import { FeeTokenInfo, feeReportCsv, feeReportJson, indexFees, monthlyFeeReport, openFeeStore } from "./lib/fee-ledger"
+
+// Usage: npx tsx js-helpers/7-fee-ledger.ts [--rpc <url>] [--db <file>] [--rewards <address>] [--from <block>] [--to <block>]
+//        [--confirmations <blocks>] [--month <YYYY-MM>] [--expect <chainId,...>] [--period <days>] [--csv <file>]
+//        [--json <file>] [--no-sync]
+// Indexes the FeesReceived events of the Rewards contract into a local SQLite database, resuming from where the
+// previous run stopped, then prints the fee inflows of --month (the current month by default) per source chain and
+// token, and the periods of --period days (1 by default) in which a chain in --expect sent no fees. --csv and --json
+// write the month's report for the treasury. The RPC defaults to $RPC_URL. The Rewards contract and the first block
+// default to the deployment registered for the RPC's chain.
+
+const root = path.join(__dirname, "..")
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(name)
+    return index === -1 ? undefined : process.argv[index + 1]
+}
+
+const formatDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString().slice(0, 10)
+
+async function main() {
+    const rpc = option("--rpc") ?? process.env.RPC_URL
+    if (!rpc) {
+        console.error("Error: pass --rpc <url> or set RPC_URL")
+        process.exit(1)
+    }
+
+    const client = createPublicClient({ transport: http(rpc) })
+    const chainId = await client.getChainId()
+
+    let rewards = option("--rewards") as Address | undefined
+    let fromBlock = option("--from") !== undefined ? BigInt(option("--from")!) : undefined
+
+    if (!rewards || fromBlock === undefined) {
+        const deployment = getDeployment(chainId)
+        rewards ??= deployment.rewards.address
+        fromBlock ??= deployment.rewards.blockNumber ?? 0n
+    }
+
+    const file = option("--db") ?? path.join(root, `fees-${chainId}.sqlite`)
+    const db = openFeeStore(file)
+
+    if (!process.argv.includes("--no-sync")) {
+        const result = await indexFees({
+            client,
+            db,
+            rewards,
+            fromBlock,
+            toBlock: option("--to") !== undefined ? BigInt(option("--to")!) : undefined,
+            confirmations: BigInt(option("--confirmations") ?? 0),
+            onProgress: (toBlock, logs) => console.log(`  indexed up to block ${toBlock} (${logs} logs)`)
+        })
+
+        if (result.rolledBackTo !== undefined) {
+            console.log(`Reorg detected: rolled back to block ${result.rolledBackTo}`)
+        }
+        console.log(`Indexed ${result.logs} logs of ${rewards} from block ${result.fromBlock} to ${result.toBlock} into ${path.relative(root, file)}`)
+    }
+
+    const { timestamp: now } = await client.getBlock()
+    const month = option("--month") ?? new Date(Number(now) * 1000).toISOString().slice(0, 7)
+    const report = monthlyFeeReport(db, month, {
+        expectedChainIds: option("--expect")?.split(",").map(BigInt) ?? [],
+        periodDays: option("--period") !== undefined ? BigInt(option("--period")!) : undefined,
+        now
+    })
+    db.close()
+
+    const tokens = new Map<Address, FeeTokenInfo>()
+    await Promise.all([...new Set(report.totals.map(total => total.token))].map(async token => {
+        const [symbol, decimals] = await Promise.all([
+            client.readContract({ address: token, abi: erc20Abi, functionName: "symbol" }),
+            client.readContract({ address: token, abi: erc20Abi, functionName: "decimals" })
+        ])
+        tokens.set(token, { symbol, decimals })
+    }))
+    const format = (token: Address, amount: bigint) => `${formatUnits(amount, tokens.get(token)!.decimals)} ${tokens.get(token)!.symbol}`
+
+    console.log(`\nFees received in ${month}:`)
+    if (report.totals.length === 0) {
+        console.log("  none")
+    }
+    report.totals.forEach(total => {
+        console.log(`  chain ${total.fromChainId}  ${format(total.token, total.amount)}  (${total.receipts} receipts)`)
+    })
+
+    if (report.gaps.length !== 0) {
+        console.log("\nMissing fees:")
+        report.gaps.forEach(gap => {
+            console.log(`  chain ${gap.fromChainId}  ${formatDate(gap.from)} to ${formatDate(gap.to - 86400n)}  (${gap.missedPeriods} periods)`)
+        })
+    }
+
+    const csv = option("--csv")
+    if (csv) {
+        writeFileSync(csv, feeReportCsv(report, tokens))
+        console.log(`\nWrote ${csv}`)
+    }
+    const json = option("--json")
+    if (json) {
+        writeFileSync(json, feeReportJson(report, tokens) + "\n")
+        console.log(`\nWrote ${json}`)
+    }
+}
+
+main().catch(error => {
+    console.error(`Error: ${(error as Error).message}`)
+    process.exit(1)
+})
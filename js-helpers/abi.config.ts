@@ -0,0 +1,27 @@
+/**
+ * @notice The contracts whose ABIs are published in abi/.
+ * @param name Module name in abi/, exported as `${name}ABI` and `${name}Abi`.
+ * @param source Solidity file declaring the contract, relative to the repository root.
+ * @param contract Contract name, which together with the source file locates the forge artifact at
+ * `out/<source file name>/<contract>.json`.
+ */
+export interface AbiTarget {
+    name: string
+    source: string
+    contract: string
+}
+
+export const abiTargets: AbiTarget[] = [
+    { name: "CTM", source: "src/token/CTM.sol", contract: "CTM" },
+    { name: "CTMHome", source: "src/token/CTMHome.sol", contract: "CTMHome" },
+    { name: "VotingEscrowProxy", source: "src/utils/VotingEscrowProxy.sol", contract: "VotingEscrowProxy" },
+    { name: "VotingEscrow", source: "src/token/VotingEscrow.sol", contract: "VotingEscrow" },
+    { name: "CTMDAOGovernor", source: "src/governance/ContinuumDAO.sol", contract: "ContinuumDAO" },
+    { name: "NodeProperties", source: "src/node/NodeProperties.sol", contract: "NodeProperties" },
+    { name: "Rewards", source: "src/node/Rewards.sol", contract: "Rewards" }
+]
+
+/// @notice Location of the forge artifact for `target`, relative to the repository root
+export function artifactPath(target: AbiTarget): string {
+    return `out/${target.source.split("/").pop()}/${target.contract}.json`
+}
@@ -0,0 +1,165 @@
+import { AbiItem, AbiParameter, canonicalType, signatureOf } from "./solidity"
+
+export type DriftKind = "function" | "event" | "error"
+
+/// @notice Coverage of an ABI taken from a compiled artifact, which is always the whole contract surface
+export const FULL_COVERAGE: Record<DriftKind, boolean> = { function: true, event: true, error: true }
+
+export interface ChangedEntry {
+    name: string
+    from: string
+    to: string
+}
+
+export interface KindDrift {
+    // present in the source of truth, missing from the checked-in ABI
+    added: string[]
+    // present in the checked-in ABI, no longer in the source of truth
+    removed: string[]
+    changed: ChangedEntry[]
+}
+
+export interface ContractDrift {
+    contract: string
+    // where the expected ABI came from
+    reference: "artifact" | "source"
+    functions: KindDrift
+    events: KindDrift
+    errors: KindDrift
+    // ABI entries that could not be matched because part of the inheritance chain lives in external dependencies
+    unverified: string[]
+}
+
+const KINDS: Record<DriftKind, "functions" | "events" | "errors"> = {
+    function: "functions",
+    event: "events",
+    error: "errors"
+}
+
+/**
+ * @notice Compares a checked-in ABI against the expected ABI of the same contract.
+ * @param contract Name used in the report.
+ * @param actual The ABI as it is currently checked in.
+ * @param expected The ABI from a forge artifact, or recovered from source.
+ * @param complete Per kind, whether `expected` covers the whole contract surface. Where it does not, ABI entries
+ * missing from `expected` are only reported as removed if their name is scoped to the contract (e.g. `VotingEscrow_*`).
+ */
+export function diffAbi(
+    contract: string,
+    actual: readonly AbiItem[],
+    expected: readonly AbiItem[],
+    reference: ContractDrift["reference"],
+    complete: Record<DriftKind, boolean>
+): ContractDrift {
+    const drift: ContractDrift = {
+        contract,
+        reference,
+        functions: emptyKindDrift(),
+        events: emptyKindDrift(),
+        errors: emptyKindDrift(),
+        unverified: []
+    }
+
+    // names such as `VotingEscrow_` or `Rewards_` that the contract uses for its own errors and events
+    const scopes = new Set(
+        expected
+            .filter(item => item.type !== "function" && item.name?.includes("_"))
+            .map(item => item.name!.slice(0, item.name!.indexOf("_") + 1))
+    )
+
+    for (const kind of Object.keys(KINDS) as DriftKind[]) {
+        const target = drift[KINDS[kind]]
+        const expectedByName = groupByName(expected.filter(item => item.type === kind))
+        const actualByName = groupByName(actual.filter(item => item.type === kind))
+        const names = new Set([...expectedByName.keys(), ...actualByName.keys()])
+
+        for (const name of [...names].sort()) {
+            const want = expectedByName.get(name) ?? []
+            const have = actualByName.get(name) ?? []
+
+            if (have.length === 0) {
+                target.added.push(...want.map(signatureOf))
+                continue
+            }
+            if (want.length === 0) {
+                const scoped = [...scopes].some(scope => name.startsWith(scope))
+                if (complete[kind] || scoped) target.removed.push(...have.map(signatureOf))
+                else drift.unverified.push(...have.map(item => `${kind} ${signatureOf(item)}`))
+                continue
+            }
+
+            const unmatchedWant = want.filter(item => !have.some(other => signatureOf(other) === signatureOf(item)))
+            const unmatchedHave = have.filter(item => !want.some(other => signatureOf(other) === signatureOf(item)))
+
+            // pair up overloads whose parameters changed, anything left over was added or removed
+            while (unmatchedWant.length && unmatchedHave.length) {
+                const from = unmatchedHave.shift()!
+                const to = unmatchedWant.shift()!
+                target.changed.push({ name, from: describe(from), to: describe(to) })
+            }
+            target.added.push(...unmatchedWant.map(signatureOf))
+            target.removed.push(...unmatchedHave.map(signatureOf))
+
+            for (const item of want) {
+                const counterpart = have.find(other => signatureOf(other) === signatureOf(item))
+                if (counterpart && describe(counterpart) !== describe(item)) {
+                    target.changed.push({ name, from: describe(counterpart), to: describe(item) })
+                }
+            }
+        }
+    }
+
+    return drift
+}
+
+/// @notice Whether the report contains any drift that should fail the check
+export function hasDrift(drift: ContractDrift): boolean {
+    return Object.values(KINDS).some(kind => {
+        const { added, removed, changed } = drift[kind]
+        return added.length + removed.length + changed.length > 0
+    })
+}
+
+/// @notice Human readable report, one line per entry
+export function formatDrift(drift: ContractDrift): string {
+    const lines = [`${drift.contract} (compared against ${drift.reference})`]
+    for (const kind of Object.values(KINDS)) {
+        const { added, removed, changed } = drift[kind]
+        added.forEach(entry => lines.push(`  + ${kind.slice(0, -1)} ${entry}`))
+        removed.forEach(entry => lines.push(`  - ${kind.slice(0, -1)} ${entry}`))
+        changed.forEach(entry => lines.push(`  ~ ${kind.slice(0, -1)} ${entry.from} => ${entry.to}`))
+    }
+    drift.unverified.forEach(entry => lines.push(`  ? ${entry}`))
+    if (lines.length === 1) lines.push("  up to date")
+    return lines.join("\n")
+}
+
+function emptyKindDrift(): KindDrift {
+    return { added: [], removed: [], changed: [] }
+}
+
+function groupByName(items: readonly AbiItem[]): Map<string, AbiItem[]> {
+    const groups = new Map<string, AbiItem[]>()
+    for (const item of items) {
+        const group = groups.get(item.name!) ?? []
+        group.push(item)
+        groups.set(item.name!, group)
+    }
+    return groups
+}
+
+function describeParameters(params: readonly AbiParameter[] | undefined, withIndexed: boolean): string {
+    return (params ?? [])
+        .map(param => canonicalType(param) + (withIndexed && param.indexed ? " indexed" : ""))
+        .join(",")
+}
+
+function describe(item: AbiItem): string {
+    if (item.type === "function") {
+        return `${item.name}(${describeParameters(item.inputs, false)}) ${item.stateMutability} returns (${describeParameters(item.outputs, false)})`
+    }
+    if (item.type === "event") {
+        return `${item.name}(${describeParameters(item.inputs, true)})`
+    }
+    return signatureOf(item)
+}
@@ -0,0 +1,251 @@
+import { existsSync, readdirSync, readFileSync } from "fs"
+import path from "path"
+
+/// @notice Subset of a forge broadcast run file (broadcast/<script>/<chainId>/run-*.json)
+export interface BroadcastRun {
+    transactions: BroadcastTransaction[]
+    receipts: BroadcastReceipt[]
+    timestamp: number
+    chain: number
+    commit: string | null
+}
+
+export interface BroadcastTransaction {
+    hash: string | null
+    transactionType: string
+    contractName: string | null
+    contractAddress: string | null
+    function: string | null
+    arguments: string[] | null
+    transaction: {
+        from: string
+        to?: string | null
+        input?: string
+        data?: string
+    }
+    additionalContracts?: {
+        transactionType: string
+        address: string
+        initCode: string
+        contractName?: string | null
+    }[]
+}
+
+export interface BroadcastReceipt {
+    transactionHash: string
+    blockNumber: string
+    from: string
+    status?: string
+    logs?: { address: string; topics: string[]; data: string }[]
+}
+
+/// @notice A contract created by a broadcast, either directly or as one of a transaction's `additionalContracts`
+export interface DeployedContract {
+    name: string | null
+    address: string
+    chainId: number
+    script: string
+    runFile: string
+    // unix timestamp of the run, as recorded by forge
+    timestamp: number
+    commit: string | null
+    transactionHash: string
+    blockNumber: number | null
+    deployer: string
+    creation: "CREATE" | "CREATE2"
+    arguments: string[] | null
+    initCode: string | null
+    // for proxies: the implementation address found in the constructor arguments or init code
+    implementation?: string
+}
+
+/// @notice A call made by a broadcast, such as an upgrade or initialization of a deployed contract
+export interface BroadcastCall {
+    contractName: string | null
+    address: string
+    chainId: number
+    script: string
+    runFile: string
+    timestamp: number
+    commit: string | null
+    transactionHash: string
+    blockNumber: number | null
+    sender: string
+    function: string | null
+    arguments: string[] | null
+    input: string | null
+}
+
+/// @notice An ERC1967 `Upgraded(address)` event emitted in a broadcast, including the one emitted by the proxy constructor
+export interface ProxyUpgrade {
+    proxy: string
+    implementation: string
+    chainId: number
+    script: string
+    runFile: string
+    timestamp: number
+    commit: string | null
+    transactionHash: string
+    blockNumber: number | null
+}
+
+export interface BroadcastHistory {
+    deployments: DeployedContract[]
+    calls: BroadcastCall[]
+    upgrades: ProxyUpgrade[]
+}
+
+const LOCAL_CHAIN_ID = "31337"
+
+// keccak256("Upgraded(address)")
+const UPGRADED_TOPIC = "0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b"
+
+/**
+ * @notice Reads every run file of every script under `broadcastDir` and returns all contract creations, calls and
+ * proxy upgrades in chronological order (by run timestamp, then transaction order).
+ * @dev `run-latest.json` duplicates the most recent timestamped run, so transactions are de-duplicated by hash.
+ * Failed transactions are skipped, and so are local (31337) and dry-run broadcasts unless `includeLocal` is set.
+ */
+export function readBroadcasts(broadcastDir: string, includeLocal = false): BroadcastHistory {
+    if (!existsSync(broadcastDir)) {
+        throw new Error(`Broadcast directory not found: ${broadcastDir}`)
+    }
+
+    const runs: { script: string; runFile: string; run: BroadcastRun }[] = []
+
+    for (const script of subdirectories(broadcastDir)) {
+        for (const chainId of subdirectories(path.join(broadcastDir, script))) {
+            if (chainId === "dry-run" || (!includeLocal && chainId === LOCAL_CHAIN_ID)) continue
+
+            const chainDir = path.join(broadcastDir, script, chainId)
+            const runFiles = readdirSync(chainDir).filter(file => /^run-.*\.json$/.test(file))
+
+            for (const runFile of runFiles) {
+                const run: BroadcastRun = JSON.parse(readFileSync(path.join(chainDir, runFile), "utf8"))
+                runs.push({ script, runFile: path.join(script, chainId, runFile), run: { ...run, chain: run.chain ?? Number(chainId) } })
+            }
+        }
+    }
+
+    // timestamped files first, so that the hashes they contain are attributed to them rather than to run-latest
+    runs.sort((a, b) =>
+        a.run.timestamp - b.run.timestamp || Number(a.runFile.endsWith("run-latest.json")) - Number(b.runFile.endsWith("run-latest.json"))
+    )
+
+    const seen = new Set<string>()
+    const deployments: DeployedContract[] = []
+    const calls: BroadcastCall[] = []
+    const upgrades: ProxyUpgrade[] = []
+
+    for (const { script, runFile, run } of runs) {
+        const receipts = new Map(run.receipts.map(receipt => [receipt.transactionHash.toLowerCase(), receipt]))
+
+        for (const tx of run.transactions) {
+            if (!tx.hash || seen.has(`${run.chain}:${tx.hash.toLowerCase()}`)) continue
+            seen.add(`${run.chain}:${tx.hash.toLowerCase()}`)
+
+            const receipt = receipts.get(tx.hash.toLowerCase())
+            if (receipt?.status !== undefined && BigInt(receipt.status) === 0n) continue
+
+            const base = {
+                chainId: run.chain,
+                script,
+                runFile,
+                timestamp: run.timestamp,
+                commit: run.commit ?? null,
+                transactionHash: tx.hash,
+                blockNumber: receipt ? Number(BigInt(receipt.blockNumber)) : null
+            }
+            const sender = (receipt?.from ?? tx.transaction.from).toLowerCase()
+            const input = tx.transaction.input ?? tx.transaction.data ?? null
+
+            if ((tx.transactionType === "CREATE" || tx.transactionType === "CREATE2") && tx.contractAddress) {
+                deployments.push({
+                    ...base,
+                    name: tx.contractName,
+                    address: tx.contractAddress.toLowerCase(),
+                    deployer: sender,
+                    creation: tx.transactionType,
+                    arguments: tx.arguments,
+                    initCode: input
+                })
+            } else if (tx.transactionType === "CALL" && tx.contractAddress) {
+                calls.push({
+                    ...base,
+                    contractName: tx.contractName,
+                    address: tx.contractAddress.toLowerCase(),
+                    sender,
+                    function: tx.function,
+                    arguments: tx.arguments,
+                    input
+                })
+            }
+
+            // contracts created by factories or constructors within this transaction
+            for (const additional of tx.additionalContracts ?? []) {
+                deployments.push({
+                    ...base,
+                    name: additional.contractName ?? null,
+                    address: additional.address.toLowerCase(),
+                    // the creating contract, or the sender for top-level CREATE2 through the deterministic deployer
+                    deployer: (tx.contractAddress ?? tx.transaction.to ?? sender).toLowerCase(),
+                    creation: additional.transactionType === "CREATE2" ? "CREATE2" : "CREATE",
+                    arguments: null,
+                    initCode: additional.initCode
+                })
+            }
+
+            for (const log of receipt?.logs ?? []) {
+                if (log.topics[0]?.toLowerCase() !== UPGRADED_TOPIC || log.topics.length < 2) continue
+
+                upgrades.push({
+                    ...base,
+                    proxy: log.address.toLowerCase(),
+                    implementation: `0x${log.topics[1].slice(-40).toLowerCase()}`
+                })
+            }
+        }
+    }
+
+    linkProxies(deployments)
+
+    return { deployments, calls, upgrades }
+}
+
+/**
+ * @notice Sets `implementation` on every proxy deployment.
+ * @dev The implementation is the first constructor argument of an ERC1967 proxy. When forge did not decode the
+ * arguments (CREATE2 through a factory, additional contracts), the init code is searched for the address of a
+ * contract deployed earlier on the same chain, ABI-encoded as a 32 byte word.
+ */
+export function linkProxies(deployments: DeployedContract[]): void {
+    deployments.forEach((proxy, index) => {
+        if (!proxy.name?.includes("Proxy")) return
+
+        const candidates = deployments.slice(0, index).filter(other => other.chainId === proxy.chainId && other !== proxy)
+        const argument = proxy.arguments?.[0]?.toLowerCase()
+
+        const byArgument = argument && candidates.find(other => other.address === argument)
+        if (byArgument) {
+            proxy.implementation = byArgument.address
+            return
+        }
+
+        const initCode = proxy.initCode?.toLowerCase() ?? ""
+        const byInitCode = [...candidates].reverse().find(other => initCode.includes(other.address.slice(2).padStart(64, "0")))
+        if (byInitCode) {
+            proxy.implementation = byInitCode.address
+        }
+    })
+}
+
+/// @notice Finds the deployment record for `address` on `chainId`, if it was deployed by a broadcast
+export function findDeployment(deployments: DeployedContract[], chainId: number, address: string): DeployedContract | undefined {
+    return deployments.find(deployment => deployment.chainId === chainId && deployment.address === address.toLowerCase())
+}
+
+function subdirectories(dir: string): string[] {
+    return readdirSync(dir, { withFileTypes: true })
+        .filter(dirent => dirent.isDirectory())
+        .map(dirent => dirent.name)
+}
@@ -0,0 +1,326 @@
+import { Address, decodeEventLog, formatUnits, PublicClient } from "viem"
+
+import { RewardsABI } from "../../abi/Rewards"
+import { IndexedLog, openStore, Store, sync, SyncResult } from "./indexer"
+
+const ONE_DAY = 86400n
+
+// One row per FeesReceived event. `day` is the UTC midnight of the block, the unit inflows are attributed to and gaps
+// are detected in. Amounts are stored as decimal TEXT, since SQLite integers are 64-bit.
+export const FEE_SCHEMA = `
+    CREATE TABLE IF NOT EXISTS fee_receipts (
+        from_chain_id TEXT NOT NULL,
+        token TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        day INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS fee_receipts_by_day ON fee_receipts (day, from_chain_id, token);
+`
+
+export const FEE_TABLES = ["fee_receipts"] as const
+
+/// @notice A `receiveFees` call, as recorded by its FeesReceived event
+export interface FeeReceipt {
+    fromChainId: bigint
+    token: Address
+    amount: bigint
+    /// @notice UTC midnight of the block
+    day: bigint
+    blockNumber: bigint
+    timestamp: bigint
+    transactionHash: string
+}
+
+/// @notice Fees of one token received from one chain over a day or a month
+export interface FeeInflow {
+    fromChainId: bigint
+    token: Address
+    receipts: number
+    amount: bigint
+}
+
+export interface DailyFeeInflow extends FeeInflow {
+    day: bigint
+}
+
+/// @notice Consecutive periods in which an expected chain sent no fees, `from` inclusive and `to` exclusive
+export interface FeeGap {
+    fromChainId: bigint
+    from: bigint
+    to: bigint
+    missedPeriods: number
+}
+
+export interface FeeGapParams {
+    /// @notice Chains expected to send fees every period
+    expectedChainIds: bigint[]
+    /// @notice First day checked, a UTC midnight
+    from: bigint
+    /// @notice Day the check stops before, a UTC midnight
+    to: bigint
+    /// @notice Days each chain has to send its fees in, 1 by default
+    periodDays?: bigint
+}
+
+export interface MonthlyFeeReport {
+    /// @notice YYYY-MM
+    month: string
+    from: bigint
+    to: bigint
+    /// @notice Inflows per source chain and token over the month
+    totals: FeeInflow[]
+    daily: DailyFeeInflow[]
+    gaps: FeeGap[]
+}
+
+export interface MonthlyFeeReportParams {
+    expectedChainIds?: bigint[]
+    periodDays?: bigint
+    /// @notice Chain time, so that periods of the current month that have not ended yet are not reported as gaps
+    now?: bigint
+}
+
+/// @notice Symbol and decimals of a fee token, for formatting reports
+export interface FeeTokenInfo {
+    symbol: string
+    decimals: number
+}
+
+export interface FeeLedgerConfig {
+    client: PublicClient
+    db: Store
+    /// @notice The Rewards contract
+    rewards: Address
+    fromBlock: bigint
+    toBlock?: bigint
+    batchSize?: bigint
+    confirmations?: bigint
+    onProgress?(toBlock: bigint, logs: number): void
+}
+
+interface FeeReceiptRow {
+    from_chain_id: string
+    token: Address
+    amount: string
+    day: number
+    block_number: number
+    timestamp: number
+    transaction_hash: string
+}
+
+export function openFeeStore(file: string): Store {
+    return openStore(file, FEE_SCHEMA)
+}
+
+/// @notice Writes a row for each FeesReceived log in a batch of Rewards logs
+export function writeFeeLogs(db: Store, logs: IndexedLog[]): void {
+    const insert = db.prepare(`
+        INSERT OR REPLACE INTO fee_receipts (from_chain_id, token, amount, day, block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    for (const log of logs) {
+        let event
+        try {
+            event = decodeEventLog({ abi: RewardsABI, data: log.data, topics: log.topics })
+        } catch {
+            continue
+        }
+        if (event.eventName !== "FeesReceived") continue
+
+        const { _token: token, _amount: amount, _fromChainId: fromChainId } = event.args
+        insert.run(
+            fromChainId.toString(),
+            token.toLowerCase(),
+            amount.toString(),
+            log.timestamp - (log.timestamp % ONE_DAY),
+            log.blockNumber,
+            log.timestamp,
+            log.transactionHash,
+            log.logIndex
+        )
+    }
+}
+
+/// @notice Indexes FeesReceived events from where the last run stopped, rolling back any reorged blocks first
+export function indexFees(config: FeeLedgerConfig): Promise<SyncResult> {
+    const { db, rewards } = config
+    return sync({
+        ...config,
+        cursor: `rewards-fees:${rewards.toLowerCase()}`,
+        address: rewards,
+        tables: FEE_TABLES,
+        handle: logs => writeFeeLogs(db, logs)
+    })
+}
+
+/// @notice Every receipt from `from` (inclusive) to `to` (exclusive), oldest first
+export function feeReceipts(db: Store, from: bigint, to: bigint): FeeReceipt[] {
+    const rows = db.prepare(
+        "SELECT * FROM fee_receipts WHERE timestamp >= ? AND timestamp < ? ORDER BY block_number, log_index"
+    ).all(from, to) as FeeReceiptRow[]
+    return rows.map(fromRow)
+}
+
+/// @notice Inflows per day, source chain and token, ordered by day, then chain, then token
+export function dailyFeeInflows(db: Store, from: bigint, to: bigint): DailyFeeInflow[] {
+    const inflows = new Map<string, DailyFeeInflow>()
+    for (const receipt of feeReceipts(db, from, to)) {
+        const key = `${receipt.day}:${receipt.fromChainId}:${receipt.token}`
+        const inflow = inflows.get(key) ?? { day: receipt.day, fromChainId: receipt.fromChainId, token: receipt.token, receipts: 0, amount: 0n }
+        inflow.receipts++
+        inflow.amount += receipt.amount
+        inflows.set(key, inflow)
+    }
+    return [...inflows.values()].sort((a, b) => compare(a.day, b.day) || compareInflows(a, b))
+}
+
+/// @notice Inflows per source chain and token over the whole range
+export function feeInflowTotals(daily: DailyFeeInflow[]): FeeInflow[] {
+    const totals = new Map<string, FeeInflow>()
+    for (const { fromChainId, token, receipts, amount } of daily) {
+        const key = `${fromChainId}:${token}`
+        const total = totals.get(key) ?? { fromChainId, token, receipts: 0, amount: 0n }
+        total.receipts += receipts
+        total.amount += amount
+        totals.set(key, total)
+    }
+    return [...totals.values()].sort(compareInflows)
+}
+
+/**
+ * @notice The periods in which an expected chain's fees never arrived, merged into runs of consecutive periods.
+ * @dev Periods are counted from `from`; a trailing partial period is only checked once it has ended, so a chain is
+ * not reported missing for a day that is still in progress.
+ */
+export function feeGaps(db: Store, { expectedChainIds, from, to, periodDays = 1n }: FeeGapParams): FeeGap[] {
+    if (periodDays <= 0n) {
+        throw new Error(`feeGaps: periodDays must be positive, got ${periodDays}`)
+    }
+    const period = periodDays * ONE_DAY
+    const received = db.prepare(
+        "SELECT 1 FROM fee_receipts WHERE from_chain_id = ? AND timestamp >= ? AND timestamp < ? LIMIT 1"
+    )
+
+    const gaps: FeeGap[] = []
+    for (const fromChainId of expectedChainIds) {
+        let gap: FeeGap | undefined
+        for (let start = from; start + period <= to; start += period) {
+            if (received.get(fromChainId.toString(), start, start + period) !== undefined) {
+                gap = undefined
+            } else if (gap) {
+                gap.to = start + period
+                gap.missedPeriods++
+            } else {
+                gap = { fromChainId, from: start, to: start + period, missedPeriods: 1 }
+                gaps.push(gap)
+            }
+        }
+    }
+    return gaps
+}
+
+/// @notice The UTC midnights starting and ending a YYYY-MM month
+export function monthRange(month: string): { from: bigint; to: bigint } {
+    const match = /^(\d{4})-(\d{2})$/.exec(month)
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        throw new Error(`monthRange: expected a month as YYYY-MM, got ${month}`)
+    }
+    const year = Number(match[1])
+    const index = Number(match[2]) - 1
+    return {
+        from: BigInt(Date.UTC(year, index, 1) / 1000),
+        to: BigInt(Date.UTC(year, index + 1, 1) / 1000)
+    }
+}
+
+/// @notice Fee inflows for a calendar month (UTC), with the gaps of `expectedChainIds`
+export function monthlyFeeReport(db: Store, month: string, { expectedChainIds = [], periodDays, now }: MonthlyFeeReportParams = {}): MonthlyFeeReport {
+    const { from, to } = monthRange(month)
+    const daily = dailyFeeInflows(db, from, to)
+    const end = now !== undefined && now < to ? now - (now % ONE_DAY) : to
+    return {
+        month,
+        from,
+        to,
+        totals: feeInflowTotals(daily),
+        daily,
+        gaps: end > from ? feeGaps(db, { expectedChainIds, from, to: end, periodDays }) : []
+    }
+}
+
+/**
+ * @notice The report as CSV with one line per day, chain and token, followed by a line per monthly total and per
+ * gap. Amounts are in the token's smallest unit; with `tokens`, a formatted amount and symbol are added.
+ */
+export function feeReportCsv(report: MonthlyFeeReport, tokens: ReadonlyMap<Address, FeeTokenInfo> = new Map()): string {
+    const lines = [["type", "date", "to_date", "from_chain_id", "token", "symbol", "receipts", "amount", "amount_formatted"]]
+    const token = (address: Address, amount: bigint) => {
+        const info = tokens.get(address)
+        return [address, info?.symbol ?? "", info ? formatUnits(amount, info.decimals) : ""]
+    }
+
+    for (const inflow of report.daily) {
+        const [address, symbol, formatted] = token(inflow.token, inflow.amount)
+        lines.push(["daily", formatDate(inflow.day), "", inflow.fromChainId.toString(), address, symbol, inflow.receipts.toString(), inflow.amount.toString(), formatted])
+    }
+    for (const total of report.totals) {
+        const [address, symbol, formatted] = token(total.token, total.amount)
+        lines.push(["total", report.month, "", total.fromChainId.toString(), address, symbol, total.receipts.toString(), total.amount.toString(), formatted])
+    }
+    for (const gap of report.gaps) {
+        lines.push(["gap", formatDate(gap.from), formatDate(gap.to - ONE_DAY), gap.fromChainId.toString(), "", "", "0", "", ""])
+    }
+
+    return lines.map(line => line.map(csvField).join(",")).join("\n") + "\n"
+}
+
+/// @notice The report as JSON, with bigints as decimal strings and days as YYYY-MM-DD
+export function feeReportJson(report: MonthlyFeeReport, tokens: ReadonlyMap<Address, FeeTokenInfo> = new Map()): string {
+    const token = (address: Address, amount: bigint) => {
+        const info = tokens.get(address)
+        return info ? { token: address, symbol: info.symbol, amount: amount.toString(), amountFormatted: formatUnits(amount, info.decimals) } : { token: address, amount: amount.toString() }
+    }
+
+    return JSON.stringify({
+        month: report.month,
+        from: formatDate(report.from),
+        to: formatDate(report.to - ONE_DAY),
+        totals: report.totals.map(total => ({ fromChainId: total.fromChainId.toString(), receipts: total.receipts, ...token(total.token, total.amount) })),
+        daily: report.daily.map(inflow => ({ day: formatDate(inflow.day), fromChainId: inflow.fromChainId.toString(), receipts: inflow.receipts, ...token(inflow.token, inflow.amount) })),
+        gaps: report.gaps.map(gap => ({ fromChainId: gap.fromChainId.toString(), from: formatDate(gap.from), to: formatDate(gap.to - ONE_DAY), missedPeriods: gap.missedPeriods }))
+    }, null, 4)
+}
+
+function formatDate(timestamp: bigint): string {
+    return new Date(Number(timestamp) * 1000).toISOString().slice(0, 10)
+}
+
+function csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function compare(a: bigint, b: bigint): number {
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+function compareInflows(a: FeeInflow, b: FeeInflow): number {
+    return compare(a.fromChainId, b.fromChainId) || a.token.localeCompare(b.token)
+}
+
+function fromRow(row: FeeReceiptRow): FeeReceipt {
+    return {
+        fromChainId: BigInt(row.from_chain_id),
+        token: row.token,
+        amount: BigInt(row.amount),
+        day: BigInt(row.day),
+        blockNumber: BigInt(row.block_number),
+        timestamp: BigInt(row.timestamp),
+        transactionHash: row.transaction_hash
+    }
+}
@@ -0,0 +1,211 @@
+import { Address, decodeEventLog, PublicClient } from "viem"
+
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { decodeDeltaMetadata, isDeltaProposal } from "../../sdk/governance/proposalDecoder"
+import { IndexedLog, openStore, Store, sync, SyncResult } from "./indexer"
+
+// uint256 values are stored as decimal TEXT, since SQLite integers are 64-bit. Every row keeps the position of the
+// log it was decoded from, which identifies it and lets the indexer roll it back.
+export const GOVERNANCE_SCHEMA = `
+    CREATE TABLE IF NOT EXISTS proposals (
+        proposal_id TEXT PRIMARY KEY,
+        proposer TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('bravo', 'delta')),
+        n_options INTEGER NOT NULL,
+        n_winners INTEGER NOT NULL,
+        vote_start INTEGER NOT NULL,
+        vote_end INTEGER NOT NULL,
+        description TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS proposal_operations (
+        proposal_id TEXT NOT NULL,
+        operation_index INTEGER NOT NULL,
+        target TEXT NOT NULL,
+        value TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        calldata TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        PRIMARY KEY (proposal_id, operation_index)
+    );
+    CREATE TABLE IF NOT EXISTS votes (
+        proposal_id TEXT NOT NULL,
+        voter TEXT NOT NULL,
+        support INTEGER NOT NULL,
+        weight TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        params TEXT,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS votes_by_proposal ON votes (proposal_id);
+    CREATE INDEX IF NOT EXISTS votes_by_voter ON votes (voter);
+    CREATE TABLE IF NOT EXISTS proposal_events (
+        proposal_id TEXT NOT NULL,
+        event TEXT NOT NULL CHECK (event IN ('extended', 'queued', 'executed', 'canceled')),
+        value TEXT,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS proposal_events_by_proposal ON proposal_events (proposal_id);
+    CREATE TABLE IF NOT EXISTS parameter_changes (
+        parameter TEXT NOT NULL,
+        old_value TEXT NOT NULL,
+        new_value TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+`
+
+export const GOVERNANCE_TABLES = ["proposals", "proposal_operations", "votes", "proposal_events", "parameter_changes"] as const
+
+/// @notice The parameter each settings event changes, as stored in parameter_changes
+const PARAMETER_EVENTS = {
+    VotingDelaySet: "votingDelay",
+    VotingPeriodSet: "votingPeriod",
+    ProposalThresholdSet: "proposalThreshold",
+    QuorumNumeratorUpdated: "quorumNumerator",
+    LateQuorumVoteExtensionSet: "lateQuorumVoteExtension"
+} as const
+
+export interface GovernanceIndexerConfig {
+    client: PublicClient
+    db: Store
+    governor: Address
+    /// @notice The governor's deployment block, where indexing starts on a new database
+    fromBlock: bigint
+    toBlock?: bigint
+    batchSize?: bigint
+    /// @notice Blocks to stay behind the chain head. Reorgs within this depth never reach the database.
+    confirmations?: bigint
+    onProgress?(toBlock: bigint, logs: number): void
+}
+
+export function openGovernanceStore(file: string): Store {
+    return openStore(file, GOVERNANCE_SCHEMA)
+}
+
+/// @notice Writes the rows for a batch of governor logs. Logs of other contracts and other events are skipped.
+export function writeGovernanceLogs(db: Store, logs: IndexedLog[]): void {
+    const insertProposal = db.prepare(`
+        INSERT OR REPLACE INTO proposals (proposal_id, proposer, kind, n_options, n_winners, vote_start, vote_end, description,
+            block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertOperation = db.prepare(`
+        INSERT OR REPLACE INTO proposal_operations (proposal_id, operation_index, target, value, signature, calldata, block_number)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertVote = db.prepare(`
+        INSERT OR REPLACE INTO votes (proposal_id, voter, support, weight, reason, params, block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertEvent = db.prepare(`
+        INSERT OR REPLACE INTO proposal_events (proposal_id, event, value, block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertParameter = db.prepare(`
+        INSERT OR REPLACE INTO parameter_changes (parameter, old_value, new_value, block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    for (const log of logs) {
+        let event
+        try {
+            event = decodeEventLog({ abi: CTMDAOGovernorABI, data: log.data, topics: log.topics })
+        } catch {
+            continue
+        }
+
+        const position = [log.blockNumber, log.timestamp, log.transactionHash, log.logIndex] as const
+
+        const parameter = (eventName: keyof typeof PARAMETER_EVENTS, oldValue: bigint | number, newValue: bigint | number) => {
+            insertParameter.run(PARAMETER_EVENTS[eventName], oldValue.toString(), newValue.toString(), ...position)
+        }
+
+        switch (event.eventName) {
+            case "ProposalCreated": {
+                const { proposalId, proposer, targets, values, signatures, calldatas, voteStart, voteEnd, description } = event.args
+                const delta = isDeltaProposal(targets, calldatas)
+                const metadata = delta ? decodeDeltaMetadata(calldatas[0]).metadata : undefined
+
+                insertProposal.run(
+                    proposalId.toString(),
+                    proposer.toLowerCase(),
+                    delta ? "delta" : "bravo",
+                    metadata?.nOptions ?? 0n,
+                    metadata?.nWinners ?? 0n,
+                    voteStart,
+                    voteEnd,
+                    description,
+                    ...position
+                )
+                targets.forEach((target, i) => {
+                    insertOperation.run(proposalId.toString(), i, target.toLowerCase(), values[i].toString(), signatures[i] ?? "", calldatas[i], log.blockNumber)
+                })
+                break
+            }
+            case "VoteCast":
+            case "VoteCastWithParams": {
+                const { proposalId, voter, support, weight, reason } = event.args
+                const params = event.eventName === "VoteCastWithParams" ? event.args.params : null
+                insertVote.run(proposalId.toString(), voter.toLowerCase(), support, weight.toString(), reason, params, ...position)
+                break
+            }
+            case "ProposalExtended":
+                insertEvent.run(event.args.proposalId.toString(), "extended", event.args.extendedDeadline.toString(), ...position)
+                break
+            case "ProposalQueued":
+                insertEvent.run(event.args.proposalId.toString(), "queued", event.args.etaSeconds.toString(), ...position)
+                break
+            case "ProposalExecuted":
+                insertEvent.run(event.args.proposalId.toString(), "executed", null, ...position)
+                break
+            case "ProposalCanceled":
+                insertEvent.run(event.args.proposalId.toString(), "canceled", null, ...position)
+                break
+            case "VotingDelaySet":
+                parameter(event.eventName, event.args.oldVotingDelay, event.args.newVotingDelay)
+                break
+            case "VotingPeriodSet":
+                parameter(event.eventName, event.args.oldVotingPeriod, event.args.newVotingPeriod)
+                break
+            case "ProposalThresholdSet":
+                parameter(event.eventName, event.args.oldProposalThreshold, event.args.newProposalThreshold)
+                break
+            case "QuorumNumeratorUpdated":
+                parameter(event.eventName, event.args.oldQuorumNumerator, event.args.newQuorumNumerator)
+                break
+            case "LateQuorumVoteExtensionSet":
+                parameter(event.eventName, event.args.oldVoteExtension, event.args.newVoteExtension)
+                break
+        }
+    }
+}
+
+/**
+ * @notice Indexes the governor's events from where the last run stopped up to `toBlock`, rolling back any reorged
+ * blocks first. Works against any RPC, including a local anvil node.
+ */
+export function indexGovernance(config: GovernanceIndexerConfig): Promise<SyncResult> {
+    const { db, governor } = config
+    return sync({
+        ...config,
+        cursor: `governor:${governor.toLowerCase()}`,
+        address: governor,
+        tables: GOVERNANCE_TABLES,
+        handle: logs => writeGovernanceLogs(db, logs)
+    })
+}
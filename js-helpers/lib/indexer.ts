@@ -0,0 +1,173 @@
+import Database from "better-sqlite3"
+import { Address, Hash, Log, PublicClient } from "viem"
+
+/**
+ * @notice A block range indexer over a local SQLite database, shared by the event indexers.
+ * @dev Every indexed table must have a `block_number` column: a reorg is rolled back by deleting the rows above the
+ * last block whose hash still matches the chain. Each batch of logs is written in one transaction together with
+ * its cursor, so an interrupted run resumes where the last complete batch ended.
+ */
+
+export type Store = Database.Database
+
+export interface IndexedLog extends Log<bigint, number, false> {
+    /// @notice Timestamp of the log's block
+    timestamp: bigint
+}
+
+export interface IndexerConfig {
+    client: PublicClient
+    db: Store
+    /// @notice Name of the cursor, one per indexed contract
+    cursor: string
+    address: Address
+    /// @notice First block to index when the cursor does not exist yet, e.g. the contract's deployment block
+    fromBlock: bigint
+    /// @notice Last block to index, defaults to the latest block minus `confirmations`
+    toBlock?: bigint
+    /// @notice Tables to roll back on reorgs
+    tables: readonly string[]
+    /// @notice Fetches anything `handle` needs beyond the logs, before the batch's transaction is opened
+    prepare?(logs: IndexedLog[]): Promise<void>
+    /// @notice Writes the rows for a batch of logs, in block and log order. Called inside a transaction.
+    handle(logs: IndexedLog[]): void
+    batchSize?: bigint
+    confirmations?: bigint
+    onProgress?(toBlock: bigint, logs: number): void
+}
+
+export interface SyncResult {
+    fromBlock: bigint
+    toBlock: bigint
+    logs: number
+    /// @notice Block the store was rolled back to, if a reorg was detected
+    rolledBackTo?: bigint
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS cursors (
+        name TEXT PRIMARY KEY,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS blocks (
+        number INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+    );
+`
+
+/// @notice Opens (or creates) the database at `file` and applies `schema`, which must be idempotent
+export function openStore(file: string, schema: string): Store {
+    const db = new Database(file)
+    db.pragma("journal_mode = WAL")
+    db.exec(SCHEMA)
+    db.exec(schema)
+    return db
+}
+
+export function readCursor(db: Store, name: string): { blockNumber: bigint; blockHash: Hash } | undefined {
+    const row = db.prepare("SELECT block_number, block_hash FROM cursors WHERE name = ?").get(name) as
+        | { block_number: number; block_hash: Hash }
+        | undefined
+    return row && { blockNumber: BigInt(row.block_number), blockHash: row.block_hash }
+}
+
+/**
+ * @notice Deletes every row above `blockNumber` from `tables` and moves `cursor` back to it, or removes the cursor
+ * when `blockHash` is undefined. Other cursors in the same database detect the reorg on their own next sync.
+ */
+export function rollback(db: Store, cursor: string, tables: readonly string[], blockNumber: bigint, blockHash?: Hash): void {
+    db.transaction(() => {
+        for (const table of tables) {
+            db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber)
+        }
+        db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber)
+        if (blockHash) {
+            db.prepare("UPDATE cursors SET block_number = ?, block_hash = ? WHERE name = ?").run(blockNumber, blockHash, cursor)
+        } else {
+            db.prepare("DELETE FROM cursors WHERE name = ?").run(cursor)
+        }
+    })()
+}
+
+/**
+ * @notice Indexes logs of `address` from the cursor up to `toBlock` in batches.
+ * @dev Before indexing, the cursor's block hash is compared to the chain. On a mismatch the stored blocks are
+ * walked back to the latest one still on the chain, and everything after it is rolled back.
+ */
+export async function sync(config: IndexerConfig): Promise<SyncResult> {
+    const { client, db, cursor, address, tables, handle, batchSize = 2_000n, confirmations = 0n } = config
+
+    let rolledBackTo: bigint | undefined
+    let start = readCursor(db, cursor)
+
+    if (start) {
+        const block = await client.getBlock({ blockNumber: start.blockNumber }).catch(() => undefined)
+        if (block?.hash !== start.blockHash) {
+            const ancestor = await commonAncestor(client, db, start.blockNumber)
+            rolledBackTo = ancestor?.number ?? config.fromBlock - 1n
+            rollback(db, cursor, tables, rolledBackTo, ancestor?.hash)
+            start = readCursor(db, cursor)
+        }
+    }
+
+    const fromBlock = start ? start.blockNumber + 1n : config.fromBlock
+    const head = config.toBlock ?? (await client.getBlockNumber()) - confirmations
+    let count = 0
+
+    for (let from = fromBlock; from <= head; from += batchSize) {
+        const to = from + batchSize - 1n < head ? from + batchSize - 1n : head
+        const [logs, end] = await Promise.all([
+            client.getLogs({ address, fromBlock: from, toBlock: to }),
+            client.getBlock({ blockNumber: to })
+        ])
+
+        const timestamps = new Map<bigint, bigint>([[end.number, end.timestamp]])
+        for (const blockNumber of new Set(logs.map(log => log.blockNumber))) {
+            if (!timestamps.has(blockNumber)) {
+                timestamps.set(blockNumber, (await client.getBlock({ blockNumber })).timestamp)
+            }
+        }
+
+        const indexed = logs
+            .sort((a, b) => (a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1))
+            .map(log => ({ ...log, timestamp: timestamps.get(log.blockNumber)! }))
+
+        await config.prepare?.(indexed)
+
+        db.transaction(() => {
+            const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)")
+            for (const log of indexed) {
+                insertBlock.run(log.blockNumber, log.blockHash, log.timestamp)
+            }
+            insertBlock.run(end.number, end.hash, end.timestamp)
+
+            handle(indexed)
+
+            db.prepare(
+                "INSERT INTO cursors (name, block_number, block_hash) VALUES (?, ?, ?) " +
+                "ON CONFLICT (name) DO UPDATE SET block_number = excluded.block_number, block_hash = excluded.block_hash"
+            ).run(cursor, end.number, end.hash)
+        })()
+
+        count += indexed.length
+        config.onProgress?.(to, indexed.length)
+    }
+
+    return { fromBlock, toBlock: head, logs: count, ...(rolledBackTo !== undefined && { rolledBackTo }) }
+}
+
+// latest stored block at or below `blockNumber` whose hash is still on the chain
+async function commonAncestor(client: PublicClient, db: Store, blockNumber: bigint): Promise<{ number: bigint; hash: Hash } | undefined> {
+    const stored = db.prepare("SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC").all(blockNumber) as
+        { number: number; hash: Hash }[]
+
+    for (const row of stored) {
+        const block = await client.getBlock({ blockNumber: BigInt(row.number) }).catch(() => undefined)
+        if (block?.hash === row.hash) {
+            return { number: BigInt(row.number), hash: row.hash }
+        }
+    }
+    return undefined
+}
@@ -0,0 +1,186 @@
+import { BroadcastHistory, findDeployment, ProxyUpgrade } from "./broadcast"
+
+/// @notice One line of the ledger: a contract creation, or a proxy pointed at a new implementation
+export interface LedgerEntry {
+    kind: "deployment" | "upgrade"
+    chainId: number
+    // unix timestamp of the forge run, which precedes block inclusion by up to a few minutes
+    timestamp: number
+    blockNumber: number | null
+    commit: string | null
+    script: string
+    runFile: string
+    transactionHash: string
+    contractName: string | null
+    address: string
+    implementation?: string
+    implementationName?: string | null
+}
+
+/// @notice A period during which a proxy delegated to one implementation. `until` is null for the current one.
+export interface ImplementationPeriod {
+    implementation: string
+    implementationName: string | null
+    from: number
+    fromBlock: number | null
+    until: number | null
+    commit: string | null
+    transactionHash: string
+}
+
+export interface ProxyHistory {
+    chainId: number
+    proxy: string
+    contractName: string | null
+    // null for proxies that were not deployed by a broadcast but upgraded by one
+    deployedAt: number | null
+    periods: ImplementationPeriod[]
+}
+
+export interface DeploymentLedger {
+    entries: LedgerEntry[]
+    proxies: ProxyHistory[]
+}
+
+/// @notice The latest contract of a given name deployed at some point in time, with the implementation it used then
+export interface LiveContract {
+    contractName: string
+    address: string
+    deployedAt: number
+    commit: string | null
+    implementation?: string
+    implementationName?: string | null
+}
+
+/**
+ * @notice Builds a chronological ledger of every deployment and upgrade per chain from the output of readBroadcasts.
+ * @dev The `Upgraded` event emitted by a proxy constructor is folded into the proxy's deployment entry. Proxies in
+ * broadcasts without receipt logs fall back to the implementation found in their constructor arguments.
+ */
+export function buildLedger({ deployments, upgrades }: BroadcastHistory): DeploymentLedger {
+    const nameOf = (chainId: number, address: string) => findDeployment(deployments, chainId, address)?.name ?? null
+    const inConstructor = (upgrade: ProxyUpgrade) => deployments.some(deployment =>
+        deployment.chainId === upgrade.chainId &&
+        deployment.address === upgrade.proxy &&
+        deployment.transactionHash === upgrade.transactionHash
+    )
+
+    const entries: LedgerEntry[] = []
+    const proxies = new Map<string, ProxyHistory>()
+
+    for (const deployment of deployments) {
+        const { chainId, timestamp, blockNumber, commit, script, runFile, transactionHash, address } = deployment
+        const entry: LedgerEntry = {
+            kind: "deployment",
+            chainId,
+            timestamp,
+            blockNumber,
+            commit,
+            script,
+            runFile,
+            transactionHash,
+            contractName: deployment.name,
+            address
+        }
+
+        const implementation = upgrades.find(upgrade =>
+            upgrade.chainId === chainId && upgrade.proxy === address && upgrade.transactionHash === transactionHash
+        )?.implementation ?? deployment.implementation
+
+        if (implementation) {
+            entry.implementation = implementation
+            entry.implementationName = nameOf(chainId, implementation)
+            proxies.set(`${chainId}:${address}`, {
+                chainId,
+                proxy: address,
+                contractName: deployment.name,
+                deployedAt: timestamp,
+                periods: [{
+                    implementation,
+                    implementationName: entry.implementationName,
+                    from: timestamp,
+                    fromBlock: blockNumber,
+                    until: null,
+                    commit,
+                    transactionHash
+                }]
+            })
+        }
+
+        entries.push(entry)
+    }
+
+    for (const upgrade of upgrades) {
+        // already recorded by the proxy's deployment entry
+        if (inConstructor(upgrade)) continue
+
+        const { chainId, timestamp, blockNumber, commit, script, runFile, transactionHash, proxy, implementation } = upgrade
+        const implementationName = nameOf(chainId, implementation)
+
+        entries.push({
+            kind: "upgrade",
+            chainId,
+            timestamp,
+            blockNumber,
+            commit,
+            script,
+            runFile,
+            transactionHash,
+            contractName: nameOf(chainId, proxy),
+            address: proxy,
+            implementation,
+            implementationName
+        })
+
+        const period = { implementation, implementationName, from: timestamp, fromBlock: blockNumber, until: null, commit, transactionHash }
+        const history = proxies.get(`${chainId}:${proxy}`)
+
+        if (history) {
+            history.periods[history.periods.length - 1].until = timestamp
+            history.periods.push(period)
+        } else {
+            proxies.set(`${chainId}:${proxy}`, { chainId, proxy, contractName: nameOf(chainId, proxy), deployedAt: null, periods: [period] })
+        }
+    }
+
+    // both lists are already chronological, a stable sort interleaves them
+    entries.sort((a, b) => a.chainId - b.chainId || a.timestamp - b.timestamp || (a.blockNumber ?? 0) - (b.blockNumber ?? 0))
+
+    return { entries, proxies: [...proxies.values()] }
+}
+
+/// @notice The implementation `proxy` delegated to at `timestamp`, or undefined if it was not deployed yet
+export function implementationAt(ledger: DeploymentLedger, chainId: number, proxy: string, timestamp: number): ImplementationPeriod | undefined {
+    const history = ledger.proxies.find(history => history.chainId === chainId && history.proxy === proxy.toLowerCase())
+    return history?.periods.find(period => period.from <= timestamp && (period.until === null || timestamp < period.until))
+}
+
+/**
+ * @notice The most recently deployed contract of each name on `chainId` as of `timestamp`, answering questions such
+ * as "which VotingEscrow implementation was live on date X". For proxies the implementation live at `timestamp` is
+ * included.
+ */
+export function liveAt(ledger: DeploymentLedger, chainId: number, timestamp: number): LiveContract[] {
+    const live = new Map<string, LiveContract>()
+
+    for (const entry of ledger.entries) {
+        if (entry.kind !== "deployment" || entry.chainId !== chainId || entry.timestamp > timestamp || !entry.contractName) continue
+
+        const contract: LiveContract = {
+            contractName: entry.contractName,
+            address: entry.address,
+            deployedAt: entry.timestamp,
+            commit: entry.commit
+        }
+
+        const period = implementationAt(ledger, chainId, entry.address, timestamp)
+        if (period) {
+            contract.implementation = period.implementation
+            contract.implementationName = period.implementationName
+        }
+
+        live.set(entry.contractName, contract)
+    }
+
+    return [...live.values()]
+}
@@ -0,0 +1,370 @@
+import { Address, decodeEventLog, PublicClient, zeroAddress } from "viem"
+
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import { IndexedLog, openStore, Store, sync, SyncResult } from "./indexer"
+
+// lock_states holds one row per token per event that changed it, each a snapshot of the token after that event, so
+// that a reorg is rolled back by deleting rows like any other table. The `locks` view is the latest snapshot of every
+// token. Amounts are stored as decimal TEXT, since SQLite integers are 64-bit. supply_changes skips the Supply event
+// that merge and split emit through _deposit_for: the contract subtracts that value again without an event, so the
+// supply does not change.
+export const POSITION_SCHEMA = `
+    CREATE TABLE IF NOT EXISTS lock_states (
+        token_id INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        unlock_time INTEGER NOT NULL,
+        non_voting INTEGER NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('live', 'withdrawn', 'liquidated', 'merged', 'burned')),
+        split_from INTEGER,
+        merged_into INTEGER,
+        deposit_type TEXT,
+        value TEXT,
+        penalty TEXT,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (block_number, log_index, token_id)
+    );
+    CREATE INDEX IF NOT EXISTS lock_states_by_token ON lock_states (token_id, block_number, log_index);
+    CREATE INDEX IF NOT EXISTS lock_states_by_owner ON lock_states (owner);
+    CREATE TABLE IF NOT EXISTS lock_lineage (
+        kind TEXT NOT NULL CHECK (kind IN ('split', 'merge')),
+        parent_id INTEGER NOT NULL,
+        child_id INTEGER NOT NULL,
+        value TEXT,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE TABLE IF NOT EXISTS supply_changes (
+        previous_supply TEXT NOT NULL,
+        supply TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE VIEW IF NOT EXISTS locks AS
+        SELECT * FROM (
+            SELECT *, ROW_NUMBER() OVER (PARTITION BY token_id ORDER BY block_number DESC, log_index DESC) AS position
+            FROM lock_states
+        ) WHERE position = 1;
+`
+
+export const POSITION_TABLES = ["lock_states", "lock_lineage", "supply_changes"] as const
+
+/// @notice IVotingEscrow.DepositType, by value
+const DEPOSIT_TYPES = ["deposit_for", "create_lock", "increase_amount", "increase_unlock_time", "merge", "split"] as const
+
+export type LockStatus = "live" | "withdrawn" | "liquidated" | "merged" | "burned"
+
+/// @notice A token's state after one of its events
+export interface LockState {
+    tokenId: bigint
+    event: string
+    owner: Address
+    amount: bigint
+    end: bigint
+    nonVoting: boolean
+    status: LockStatus
+    splitFrom?: bigint
+    mergedInto?: bigint
+    depositType?: string
+    /// @notice Value moved by the event: deposited, withdrawn, liquidated or split off
+    value?: bigint
+    /// @notice Liquidation penalty paid to the treasury
+    penalty?: bigint
+    blockNumber: bigint
+    timestamp: bigint
+    transactionHash: string
+}
+
+export interface LineageEdge {
+    kind: "split" | "merge"
+    /// @notice The token split from, or the token burned by the merge
+    parentId: bigint
+    /// @notice The token created by the split, or the token merged into
+    childId: bigint
+    /// @notice Value split off, undefined for merges
+    value?: bigint
+    blockNumber: bigint
+    timestamp: bigint
+}
+
+export interface PositionIndexerConfig {
+    client: PublicClient
+    db: Store
+    /// @notice The VotingEscrow proxy
+    votingEscrow: Address
+    fromBlock: bigint
+    toBlock?: bigint
+    batchSize?: bigint
+    confirmations?: bigint
+    onProgress?(toBlock: bigint, logs: number): void
+}
+
+interface LockStateRow {
+    token_id: number
+    event: string
+    owner: Address
+    amount: string
+    unlock_time: number
+    non_voting: number
+    status: LockStatus
+    split_from: number | null
+    merged_into: number | null
+    deposit_type: string | null
+    value: string | null
+    penalty: string | null
+    block_number: number
+    timestamp: number
+    transaction_hash: string
+}
+
+export function openPositionStore(file: string): Store {
+    return openStore(file, POSITION_SCHEMA)
+}
+
+/**
+ * @notice Writes the rows for a batch of VotingEscrow logs.
+ * @param nonVoting `nonVoting(tokenId)` of every token minted in the batch. No event marks a lock as non-voting;
+ * the flag is set at creation and never changes.
+ * @dev Split and merge update the parent token without a Deposit of their own, so their amounts are adjusted from the
+ * Split and Merge events. Token 0, minted and burned to the contract itself by `initialize`, is skipped.
+ */
+export function writePositionLogs(db: Store, logs: IndexedLog[], nonVoting: ReadonlyMap<bigint, boolean>): void {
+    const latest = db.prepare(
+        "SELECT * FROM lock_states WHERE token_id = ? ORDER BY block_number DESC, log_index DESC LIMIT 1"
+    )
+    const insertState = db.prepare(`
+        INSERT OR REPLACE INTO lock_states (token_id, event, owner, amount, unlock_time, non_voting, status, split_from, merged_into,
+            deposit_type, value, penalty, block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertLineage = db.prepare(`
+        INSERT OR REPLACE INTO lock_lineage (kind, parent_id, child_id, value, block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertSupply = db.prepare(`
+        INSERT OR REPLACE INTO supply_changes (previous_supply, supply, block_number, timestamp, transaction_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `)
+
+    const events = logs.map(log => {
+        try {
+            return decodeEventLog({ abi: VotingEscrowABI, data: log.data, topics: log.topics })
+        } catch {
+            return undefined
+        }
+    })
+
+    // the Supply event of each merge or split is the last one before the Merge or Split event in its transaction
+    const reverted = new Set<number>()
+    events.forEach((event, i) => {
+        if (event?.eventName !== "Merge" && event?.eventName !== "Split") return
+        for (let j = i - 1; j >= 0 && logs[j].transactionHash === logs[i].transactionHash; j--) {
+            if (events[j]?.eventName === "Supply") {
+                reverted.add(j)
+                break
+            }
+        }
+    })
+
+    for (const [i, log] of logs.entries()) {
+        const event = events[i]
+        if (!event) continue
+
+        const position = [log.blockNumber, log.timestamp, log.transactionHash, log.logIndex] as const
+
+        const previous = (tokenId: bigint): LockState => {
+            const row = latest.get(tokenId) as LockStateRow | undefined
+            if (!row) {
+                throw new Error(`position indexer: ${event.eventName} for token ${tokenId}, which was never minted`)
+            }
+            return fromRow(row)
+        }
+
+        const write = (state: Omit<LockState, "blockNumber" | "timestamp" | "transactionHash">) => {
+            insertState.run(
+                state.tokenId,
+                state.event,
+                state.owner.toLowerCase(),
+                state.amount.toString(),
+                state.end,
+                state.nonVoting ? 1 : 0,
+                state.status,
+                state.splitFrom ?? null,
+                state.mergedInto ?? null,
+                state.depositType ?? null,
+                state.value?.toString() ?? null,
+                state.penalty?.toString() ?? null,
+                ...position
+            )
+        }
+
+        const base = (state: LockState) => ({ ...state, depositType: undefined, value: undefined, penalty: undefined })
+
+        switch (event.eventName) {
+            case "Transfer": {
+                const { from, to, tokenId } = event.args
+                if (tokenId === 0n) break
+
+                if (from === zeroAddress) {
+                    write({ tokenId, event: "mint", owner: to, amount: 0n, end: 0n, nonVoting: nonVoting.get(tokenId) ?? false, status: "live" })
+                } else {
+                    const state = previous(tokenId)
+                    write({ ...base(state), event: to === zeroAddress ? "burn" : "transfer", owner: to, status: to === zeroAddress ? "burned" : state.status })
+                }
+                break
+            }
+            case "Deposit": {
+                const { _tokenId: tokenId, _value: value, _locktime: end, _deposit_type: depositType } = event.args
+                const state = previous(tokenId)
+                write({ ...base(state), event: "deposit", amount: state.amount + value, end, depositType: DEPOSIT_TYPES[depositType], value })
+                break
+            }
+            case "Split": {
+                const { _tokenId: parentId, _extractionId: childId, _extractionValue: value } = event.args
+                const parent = previous(parentId)
+                write({ ...base(parent), event: "split", amount: parent.amount - value, value })
+                write({ ...base(previous(childId)), event: "split", splitFrom: parentId, value })
+                insertLineage.run("split", parentId, childId, value.toString(), ...position)
+                break
+            }
+            case "Merge": {
+                const { _fromId: fromId, _toId: toId } = event.args
+                const from = previous(fromId)
+                write({ ...base(from), event: "merge", amount: 0n, end: 0n, status: "merged", mergedInto: toId, value: from.amount })
+                insertLineage.run("merge", fromId, toId, null, ...position)
+                break
+            }
+            case "Withdraw": {
+                const { _tokenId: tokenId, _value: value } = event.args
+                const state = previous(tokenId)
+                write({ ...base(state), event: "withdraw", amount: 0n, end: 0n, status: "withdrawn", value })
+                break
+            }
+            case "Liquidate": {
+                const { _tokenId: tokenId, _value: value, _penalty: penalty } = event.args
+                const state = previous(tokenId)
+                write({ ...base(state), event: "liquidate", amount: 0n, end: 0n, status: "liquidated", value, penalty })
+                break
+            }
+            case "Supply":
+                if (reverted.has(i)) break
+                insertSupply.run(event.args._prevSupply.toString(), event.args._supply.toString(), ...position)
+                break
+        }
+    }
+}
+
+/// @notice Indexes VotingEscrow events from where the last run stopped, rolling back any reorged blocks first
+export function indexPositions(config: PositionIndexerConfig): Promise<SyncResult> {
+    const { client, db, votingEscrow } = config
+    const nonVoting = new Map<bigint, boolean>()
+
+    return sync({
+        ...config,
+        cursor: `votingEscrow:${votingEscrow.toLowerCase()}`,
+        address: votingEscrow,
+        tables: POSITION_TABLES,
+        prepare: async logs => {
+            nonVoting.clear()
+            const minted = logs.flatMap(log => {
+                try {
+                    const event = decodeEventLog({ abi: VotingEscrowABI, data: log.data, topics: log.topics })
+                    return event.eventName === "Transfer" && event.args.from === zeroAddress && event.args.tokenId !== 0n ? [event.args.tokenId] : []
+                } catch {
+                    return []
+                }
+            })
+            await Promise.all(minted.map(async tokenId => {
+                nonVoting.set(tokenId, await client.readContract({ address: votingEscrow, abi: VotingEscrowABI, functionName: "nonVoting", args: [tokenId] }))
+            }))
+        },
+        handle: logs => writePositionLogs(db, logs, nonVoting)
+    })
+}
+
+/// @notice Current state of every token `owner` holds, excluding burned tokens. Expired locks are included until withdrawn.
+export function liveLocks(db: Store, owner: Address): LockState[] {
+    const rows = db.prepare("SELECT * FROM locks WHERE owner = ? AND status = 'live' ORDER BY token_id").all(owner.toLowerCase()) as LockStateRow[]
+    return rows.map(fromRow)
+}
+
+/// @notice Every state of `tokenId`, oldest first
+export function tokenTimeline(db: Store, tokenId: bigint): LockState[] {
+    const rows = db.prepare("SELECT * FROM lock_states WHERE token_id = ? ORDER BY block_number, log_index").all(tokenId) as LockStateRow[]
+    return rows.map(fromRow)
+}
+
+/**
+ * @notice The splits and merges connecting `tokenId` to other tokens, in either direction and through any number of
+ * steps, oldest first.
+ */
+export function lineage(db: Store, tokenId: bigint): LineageEdge[] {
+    const edges = db.prepare(
+        "SELECT * FROM lock_lineage WHERE parent_id = ? OR child_id = ?"
+    )
+    const seen = new Set<bigint>([tokenId])
+    const found = new Map<string, LineageEdge>()
+    const queue = [tokenId]
+
+    while (queue.length !== 0) {
+        const current = queue.shift()!
+        const rows = edges.all(current, current) as {
+            kind: "split" | "merge"
+            parent_id: number
+            child_id: number
+            value: string | null
+            block_number: number
+            timestamp: number
+            log_index: number
+        }[]
+
+        for (const row of rows) {
+            found.set(`${row.block_number}:${row.log_index}`, {
+                kind: row.kind,
+                parentId: BigInt(row.parent_id),
+                childId: BigInt(row.child_id),
+                ...(row.value !== null && { value: BigInt(row.value) }),
+                blockNumber: BigInt(row.block_number),
+                timestamp: BigInt(row.timestamp)
+            })
+            for (const next of [BigInt(row.parent_id), BigInt(row.child_id)]) {
+                if (!seen.has(next)) {
+                    seen.add(next)
+                    queue.push(next)
+                }
+            }
+        }
+    }
+
+    return [...found.values()].sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : a.blockNumber > b.blockNumber ? 1 : 0))
+}
+
+function fromRow(row: LockStateRow): LockState {
+    return {
+        tokenId: BigInt(row.token_id),
+        event: row.event,
+        owner: row.owner,
+        amount: BigInt(row.amount),
+        end: BigInt(row.unlock_time),
+        nonVoting: row.non_voting === 1,
+        status: row.status,
+        ...(row.split_from !== null && { splitFrom: BigInt(row.split_from) }),
+        ...(row.merged_into !== null && { mergedInto: BigInt(row.merged_into) }),
+        ...(row.deposit_type !== null && { depositType: row.deposit_type }),
+        ...(row.value !== null && { value: BigInt(row.value) }),
+        ...(row.penalty !== null && { penalty: BigInt(row.penalty) }),
+        blockNumber: BigInt(row.block_number),
+        timestamp: BigInt(row.timestamp),
+        transactionHash: row.transaction_hash
+    }
+}
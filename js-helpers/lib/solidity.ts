@@ -0,0 +1,462 @@
+import { existsSync, readFileSync } from "fs"
+import path from "path"
+
+/**
+ * Minimal ABI shapes produced from Solidity source. They mirror the JSON emitted by solc so that source-derived
+ * entries can be compared directly against forge artifacts and the modules in abi/.
+ */
+export interface AbiParameter {
+    name: string
+    type: string
+    internalType?: string
+    indexed?: boolean
+    components?: readonly AbiParameter[]
+}
+
+export interface AbiItem {
+    type: string
+    name?: string
+    inputs?: readonly AbiParameter[]
+    outputs?: readonly AbiParameter[]
+    stateMutability?: string
+    anonymous?: boolean
+}
+
+/// @notice The public surface of a contract as recovered from source
+export interface SourceSurface {
+    contract: string
+    items: AbiItem[]
+    // false when a base contract could not be resolved (e.g. it lives in an external dependency)
+    complete: boolean
+    unresolvedBases: string[]
+    // non-relative imports, e.g. OpenZeppelin libraries whose errors end up in the compiled ABI
+    externalImports: string[]
+}
+
+interface Statement {
+    header: string
+    block?: string
+}
+
+interface StructDef {
+    members: { name: string; type: string }[]
+}
+
+interface Unit {
+    kind: "contract" | "interface" | "library"
+    name: string
+    bases: string[]
+    file: string
+    body: Statement[]
+}
+
+interface ParsedFile {
+    imports: string[]
+    externalImports: string[]
+    units: Unit[]
+    // file-level errors and events
+    declarations: Statement[]
+}
+
+// Types declared in external dependencies that cannot be resolved from this repository
+const EXTERNAL_TYPES: Record<string, string> = {
+    ProposalState: "uint8"
+}
+
+const ELEMENTARY = /^(uint\d*|int\d*|bytes\d*|address|bool|string|bytes|byte)$/
+
+/**
+ * @notice Removes comments and the contents of string literals, so that braces and parentheses can be matched
+ * without a full tokenizer.
+ */
+export function stripSource(source: string): string {
+    let out = ""
+    let i = 0
+    while (i < source.length) {
+        const c = source[i]
+        const next = source[i + 1]
+        if (c === "/" && next === "/") {
+            while (i < source.length && source[i] !== "\n") i++
+        } else if (c === "/" && next === "*") {
+            const end = source.indexOf("*/", i + 2)
+            i = end === -1 ? source.length : end + 2
+            out += " "
+        } else if (c === "\"" || c === "'") {
+            let j = i + 1
+            while (j < source.length && source[j] !== c) {
+                if (source[j] === "\\") j++
+                j++
+            }
+            out += c + c
+            i = j + 1
+        } else {
+            out += c
+            i++
+        }
+    }
+    return out
+}
+
+function matchClosing(text: string, open: number, openChar: string, closeChar: string): number {
+    let depth = 0
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === openChar) depth++
+        else if (text[i] === closeChar) {
+            depth--
+            if (depth === 0) return i
+        }
+    }
+    throw new Error(`Unbalanced "${openChar}" at offset ${open}`)
+}
+
+function splitStatements(text: string): Statement[] {
+    const statements: Statement[] = []
+    let header = ""
+    let parens = 0
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i]
+        if (c === "(") parens++
+        if (c === ")") parens--
+        if (parens === 0 && c === ";") {
+            if (header.trim()) statements.push({ header: normalise(header) })
+            header = ""
+        } else if (parens === 0 && c === "{") {
+            const close = matchClosing(text, i, "{", "}")
+            statements.push({ header: normalise(header), block: text.slice(i + 1, close) })
+            header = ""
+            i = close
+        } else {
+            header += c
+        }
+    }
+    return statements
+}
+
+function normalise(text: string): string {
+    return text.replace(/\s+/g, " ").trim()
+}
+
+function splitTopLevel(text: string, separator = ","): string[] {
+    const parts: string[] = []
+    let depth = 0
+    let current = ""
+    for (const c of text) {
+        if (c === "(" || c === "[") depth++
+        if (c === ")" || c === "]") depth--
+        if (c === separator && depth === 0) {
+            parts.push(current.trim())
+            current = ""
+        } else {
+            current += c
+        }
+    }
+    if (current.trim()) parts.push(current.trim())
+    return parts
+}
+
+function parseFile(file: string): ParsedFile {
+    let text = stripSource(readFileSync(file, "utf8"))
+    const imports: string[] = []
+    const externalImports: string[] = []
+
+    text = text.replace(/import\s+(?:[^;]*?from\s+)?""\s*;/g, "")
+    // string literals are stripped above, so import paths are read from the raw source instead
+    for (const match of readFileSync(file, "utf8").matchAll(/^\s*import\s+(?:[^;]*?from\s+)?"([^"]+)"\s*;/gm)) {
+        if (match[1].startsWith(".")) {
+            imports.push(path.resolve(path.dirname(file), match[1]))
+        } else {
+            externalImports.push(match[1])
+        }
+    }
+
+    const units: Unit[] = []
+    const declarations: Statement[] = []
+
+    for (const statement of splitStatements(text)) {
+        const unit = statement.header.match(/^(?:abstract\s+)?(contract|interface|library)\s+(\w+)(?:\s+is\s+(.+))?$/)
+        if (unit && statement.block !== undefined) {
+            units.push({
+                kind: unit[1] as Unit["kind"],
+                name: unit[2],
+                bases: unit[3] ? splitTopLevel(unit[3]).map(base => base.replace(/\(.*\)$/, "").trim()) : [],
+                file,
+                body: splitStatements(statement.block)
+            })
+        } else {
+            declarations.push(statement)
+        }
+    }
+
+    return { imports, externalImports, units, declarations }
+}
+
+/**
+ * @notice Loads Solidity sources starting at an entry file, following relative imports, and recovers the external
+ * ABI of a contract from its own declarations and those of its locally resolvable base contracts.
+ */
+export class SolidityProject {
+    private files = new Map<string, ParsedFile>()
+    private units = new Map<string, Unit>()
+    private structs = new Map<string, StructDef>()
+    private enums = new Set<string>()
+    private valueTypes = new Map<string, string>()
+
+    load(file: string): void {
+        const resolved = path.resolve(file)
+        if (this.files.has(resolved)) return
+        if (!existsSync(resolved)) {
+            throw new Error(`Solidity source not found: ${resolved}`)
+        }
+
+        const parsed = parseFile(resolved)
+        this.files.set(resolved, parsed)
+
+        this.registerTypes("", parsed.declarations)
+        for (const unit of parsed.units) {
+            this.units.set(unit.name, unit)
+            this.registerTypes(unit.name, unit.body)
+        }
+        for (const imported of parsed.imports) {
+            this.load(imported)
+        }
+    }
+
+    surface(contract: string): SourceSurface {
+        const root = this.units.get(contract)
+        if (!root) {
+            throw new Error(`Contract ${contract} is not declared in the loaded sources`)
+        }
+
+        const items = new Map<string, AbiItem>()
+        const unresolvedBases: string[] = []
+        const externalImports = new Set<string>()
+        const visited = new Set<string>()
+
+        const visit = (unit: Unit) => {
+            if (visited.has(unit.name)) return
+            visited.add(unit.name)
+
+            for (const statement of unit.body) {
+                const item = this.parseMember(statement, unit.kind === "interface")
+                if (item && !items.has(itemKey(item))) items.set(itemKey(item), item)
+            }
+            const file = this.files.get(unit.file)!
+            file.externalImports.forEach(imported => externalImports.add(imported))
+            for (const statement of file.declarations) {
+                const item = this.parseMember(statement, false)
+                if (item && item.type !== "function" && !items.has(itemKey(item))) items.set(itemKey(item), item)
+            }
+
+            for (const base of unit.bases) {
+                const baseUnit = this.units.get(base)
+                if (baseUnit) visit(baseUnit)
+                else unresolvedBases.push(base)
+            }
+        }
+
+        visit(root)
+
+        return {
+            contract,
+            items: [...items.values()],
+            complete: unresolvedBases.length === 0,
+            unresolvedBases,
+            externalImports: [...externalImports]
+        }
+    }
+
+    private registerTypes(scope: string, statements: Statement[]): void {
+        for (const { header, block } of statements) {
+            const struct = header.match(/^struct\s+(\w+)$/)
+            if (struct && block !== undefined) {
+                const members = block
+                    .split(";")
+                    .map(normalise)
+                    .filter(Boolean)
+                    .map(member => {
+                        const name = member.slice(member.lastIndexOf(" ") + 1)
+                        return { name, type: member.slice(0, member.lastIndexOf(" ")).trim() }
+                    })
+                this.structs.set(struct[1], { members })
+                if (scope) this.structs.set(`${scope}.${struct[1]}`, { members })
+            }
+            const enumDef = header.match(/^enum\s+(\w+)$/)
+            if (enumDef) {
+                this.enums.add(enumDef[1])
+                if (scope) this.enums.add(`${scope}.${enumDef[1]}`)
+            }
+            const valueType = header.match(/^type\s+(\w+)\s+is\s+(\w+)$/)
+            if (valueType) {
+                this.valueTypes.set(valueType[1], valueType[2])
+            }
+        }
+    }
+
+    private parseMember(statement: Statement, isInterface: boolean): AbiItem | undefined {
+        const { header } = statement
+
+        if (/^function\s+\w+\s*\(/.test(header)) {
+            return this.parseFunction(header, isInterface)
+        }
+        const eventMatch = header.match(/^event\s+(\w+)\s*\((.*)\)\s*(anonymous)?$/)
+        if (eventMatch) {
+            return {
+                type: "event",
+                name: eventMatch[1],
+                inputs: this.parseParameters(eventMatch[2], true),
+                anonymous: eventMatch[3] === "anonymous"
+            }
+        }
+        const errorMatch = header.match(/^error\s+(\w+)\s*\((.*)\)$/)
+        if (errorMatch) {
+            return { type: "error", name: errorMatch[1], inputs: this.parseParameters(errorMatch[2], false) }
+        }
+        if (statement.block === undefined && !/^(using|struct|enum|type|modifier|constructor|receive|fallback)\b/.test(header)) {
+            return this.parseStateVariable(header)
+        }
+        return undefined
+    }
+
+    private parseFunction(header: string, isInterface: boolean): AbiItem | undefined {
+        const name = header.match(/^function\s+(\w+)/)![1]
+        const open = header.indexOf("(")
+        const close = matchClosing(header, open, "(", ")")
+        const rest = header.slice(close + 1)
+
+        const modifiers = rest.replace(/returns\s*\(.*\)/, "")
+        if (!isInterface && !/\b(public|external)\b/.test(modifiers)) return undefined
+
+        const mutability = modifiers.match(/\b(pure|view|payable)\b/)
+        const returns = rest.match(/returns\s*\(/)
+        let outputs: AbiParameter[] = []
+        if (returns) {
+            const start = rest.indexOf("(", returns.index!)
+            outputs = this.parseParameters(rest.slice(start + 1, matchClosing(rest, start, "(", ")")), false)
+        }
+
+        return {
+            type: "function",
+            name,
+            inputs: this.parseParameters(header.slice(open + 1, close), false),
+            outputs,
+            stateMutability: mutability ? mutability[1] : "nonpayable"
+        }
+    }
+
+    private parseStateVariable(header: string): AbiItem | undefined {
+        const declaration = header.replace(/=(?!>).*$/, "").trim()
+        let type: string
+        let rest: string
+        if (declaration.startsWith("mapping")) {
+            const close = matchClosing(declaration, declaration.indexOf("("), "(", ")")
+            type = declaration.slice(0, close + 1)
+            rest = declaration.slice(close + 1)
+        } else {
+            type = declaration.split(" ")[0]
+            rest = declaration.slice(type.length)
+        }
+
+        const words = rest.trim().split(/\s+/)
+        if (!words.includes("public")) return undefined
+        const name = words[words.length - 1]
+
+        const inputs: AbiParameter[] = []
+        while (true) {
+            const mapping = type.match(/^mapping\s*\((.*)\)$/)
+            if (mapping) {
+                const [key, value] = splitArrow(mapping[1])
+                inputs.push(this.toParameter(key.split(" ")[0], ""))
+                type = value.startsWith("mapping") ? value : value.split(" ")[0]
+                continue
+            }
+            const array = type.match(/^(.*)\[\d*\]$/)
+            if (array) {
+                inputs.push(this.toParameter("uint256", ""))
+                type = array[1]
+                continue
+            }
+            break
+        }
+
+        let outputs: AbiParameter[]
+        const struct = this.structs.get(type)
+        if (struct) {
+            outputs = struct.members
+                .filter(member => !member.type.startsWith("mapping") && !/\]$/.test(member.type))
+                .map(member => this.toParameter(member.type, member.name))
+        } else {
+            outputs = [this.toParameter(type, "")]
+        }
+
+        return { type: "function", name, inputs, outputs, stateMutability: "view" }
+    }
+
+    private parseParameters(list: string, allowIndexed: boolean): AbiParameter[] {
+        return splitTopLevel(list).map(parameter => {
+            const words = parameter
+                .split(/\s+/)
+                .filter(word => !["memory", "calldata", "storage", "payable"].includes(word))
+            const indexed = words.includes("indexed")
+            const [type, ...names] = words.filter(word => word !== "indexed")
+            const param = this.toParameter(type, names.length ? names[names.length - 1] : "")
+            return allowIndexed ? { ...param, indexed } : param
+        })
+    }
+
+    private toParameter(type: string, name: string): AbiParameter {
+        const match = type.match(/^([\w.]+)((?:\[[\d_]*\])*)$/)
+        if (!match) return { name, type }
+        const [, base, suffix] = match
+
+        if (ELEMENTARY.test(base)) {
+            return { name, type: canonicalElementary(base) + suffix }
+        }
+
+        const struct = this.structs.get(base) ?? this.structs.get(base.split(".").pop()!)
+        if (struct) {
+            return {
+                name,
+                type: "tuple" + suffix,
+                components: struct.members.map(member => this.toParameter(member.type, member.name))
+            }
+        }
+
+        const local = base.split(".").pop()!
+        if (this.enums.has(base) || this.enums.has(local)) return { name, type: "uint8" + suffix }
+        if (this.valueTypes.has(local)) return { name, type: this.valueTypes.get(local)! + suffix }
+        if (EXTERNAL_TYPES[local]) return { name, type: EXTERNAL_TYPES[local] + suffix }
+        // contract and interface types are encoded as addresses
+        if (this.units.has(local) || /^I[A-Z]/.test(local)) return { name, type: "address" + suffix }
+
+        return { name, type: base + suffix }
+    }
+}
+
+function splitArrow(text: string): [string, string] {
+    const index = text.indexOf("=>")
+    return [text.slice(0, index).trim(), text.slice(index + 2).trim()]
+}
+
+function canonicalElementary(type: string): string {
+    if (type === "uint") return "uint256"
+    if (type === "int") return "int256"
+    if (type === "byte") return "bytes1"
+    return type
+}
+
+/// @notice Canonical type of a parameter as used in selectors, e.g. `(int128,uint256)[]` for a struct array
+export function canonicalType(param: AbiParameter): string {
+    if (param.type.startsWith("tuple")) {
+        return `(${(param.components ?? []).map(canonicalType).join(",")})${param.type.slice("tuple".length)}`
+    }
+    return param.type
+}
+
+/// @notice Canonical signature of a function, event or error, e.g. `locked(uint256)`
+export function signatureOf(item: AbiItem): string {
+    return `${item.name}(${(item.inputs ?? []).map(canonicalType).join(",")})`
+}
+
+function itemKey(item: AbiItem): string {
+    return `${item.type}:${signatureOf(item)}`
+}
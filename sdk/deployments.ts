@@ -0,0 +1,115 @@
+import { Address, getAddress } from "viem"
+
+import { CTMABI, CTMAbi } from "../abi/CTM"
+import { CTMHomeABI, CTMHomeAbi } from "../abi/CTMHome"
+import { CTMDAOGovernorABI, CTMDAOGovernorAbi } from "../abi/CTMDAOGovernor"
+import { NodePropertiesABI, NodePropertiesAbi } from "../abi/NodeProperties"
+import { RewardsABI, RewardsAbi } from "../abi/Rewards"
+import { VotingEscrowABI, VotingEscrowAbi } from "../abi/VotingEscrow"
+import contractAddresses from "../contract-addresses.json"
+import contractDeployments from "../contract-deployments.json"
+
+/// @notice Keys written to contract-addresses.json by js-helpers/0-save-contract-addresses
+export type ContractKey = "ctm" | "votingEscrowProxy" | "votingEscrowImpl" | "ctmDAOGovernor" | "nodeProperties" | "rewards"
+
+export type AddressBook = Record<string, Partial<Record<ContractKey, string>>>
+
+/// @notice Per-contract deployment metadata written to contract-deployments.json alongside the address book
+export type DeploymentRecords = Record<string, Partial<Record<ContractKey, { contractName?: string; blockNumber: number | null }>>>
+
+export interface ContractDeployment<TAbi> {
+    address: Address
+    abi: TAbi
+    /// @notice Block the contract was created in, when known. Event queries and indexers can start from here.
+    blockNumber?: bigint
+}
+
+/// @notice CTMHome on the home chain and CTM elsewhere, both saved under the "ctm" key. Narrow on `contractName`
+/// to call functions only CTMHome has, such as `mint`.
+export type CTMDeployment =
+    | (ContractDeployment<CTMAbi> & { contractName: "CTM" })
+    | (ContractDeployment<CTMHomeAbi> & { contractName: "CTMHome" })
+
+export interface Deployment {
+    chainId: number
+    ctm: CTMDeployment
+    /// @notice The VotingEscrow proxy. All calls and event subscriptions go through this address.
+    votingEscrow: ContractDeployment<VotingEscrowAbi>
+    /// @notice The VotingEscrow implementation behind the proxy. Only used for source verification.
+    votingEscrowImplementation: ContractDeployment<VotingEscrowAbi>
+    ctmDAOGovernor: ContractDeployment<CTMDAOGovernorAbi>
+    nodeProperties: ContractDeployment<NodePropertiesAbi>
+    rewards: ContractDeployment<RewardsAbi>
+}
+
+export class DeploymentNotFoundError extends Error {
+    constructor(public readonly chainId: number, public readonly knownChainIds: number[]) {
+        super(`No ContinuumDAO deployment for chain ID ${chainId}. Deployed chain IDs: ${knownChainIds.join(", ") || "none"}`)
+        this.name = "DeploymentNotFoundError"
+    }
+}
+
+export class IncompleteDeploymentError extends Error {
+    constructor(public readonly chainId: number, public readonly missing: ContractKey[]) {
+        super(`Deployment for chain ID ${chainId} is missing addresses for: ${missing.join(", ")}`)
+        this.name = "IncompleteDeploymentError"
+    }
+}
+
+const CONTRACT_KEYS: ContractKey[] = ["ctm", "votingEscrowProxy", "votingEscrowImpl", "ctmDAOGovernor", "nodeProperties", "rewards"]
+
+/// @notice Chain IDs with a complete deployment in `book`
+export function deployedChainIds(book: AddressBook = contractAddresses): number[] {
+    return Object.keys(book)
+        .filter(chainId => CONTRACT_KEYS.every(key => book[chainId][key]))
+        .map(Number)
+}
+
+/**
+ * @notice Returns the checksummed contract addresses of a deployment, each paired with its ABI.
+ * @param chainId The chain to look up.
+ * @param book Address book to read from, defaults to the checked-in contract-addresses.json.
+ * @param records Deployment metadata to read block numbers and contract names from, defaults to the checked-in
+ * contract-deployments.json. The "ctm" entry is paired with CTMHomeABI when its record names CTMHome.
+ * @dev Throws DeploymentNotFoundError for unknown chains and IncompleteDeploymentError if the chain's entry does
+ * not list every contract.
+ */
+export function getDeployment(
+    chainId: number,
+    book: AddressBook = contractAddresses,
+    records: DeploymentRecords = contractDeployments
+): Deployment {
+    const entry = book[chainId.toString()]
+
+    if (!entry) {
+        throw new DeploymentNotFoundError(chainId, deployedChainIds(book))
+    }
+
+    const missing = CONTRACT_KEYS.filter(key => !entry[key])
+    if (missing.length !== 0) {
+        throw new IncompleteDeploymentError(chainId, missing)
+    }
+
+    const at = <TAbi>(key: ContractKey, abi: TAbi): ContractDeployment<TAbi> => {
+        const blockNumber = records[chainId.toString()]?.[key]?.blockNumber
+        return {
+            address: getAddress(entry[key]!),
+            abi,
+            ...(blockNumber != null && { blockNumber: BigInt(blockNumber) })
+        }
+    }
+
+    const ctm: CTMDeployment = records[chainId.toString()]?.ctm?.contractName === "CTMHome"
+        ? { ...at("ctm", CTMHomeABI), contractName: "CTMHome" }
+        : { ...at("ctm", CTMABI), contractName: "CTM" }
+
+    return {
+        chainId,
+        ctm,
+        votingEscrow: at("votingEscrowProxy", VotingEscrowABI),
+        votingEscrowImplementation: at("votingEscrowImpl", VotingEscrowABI),
+        ctmDAOGovernor: at("ctmDAOGovernor", CTMDAOGovernorABI),
+        nodeProperties: at("nodeProperties", NodePropertiesABI),
+        rewards: at("rewards", RewardsABI)
+    }
+}
@@ -0,0 +1,290 @@
+import {
+    Abi,
+    AbiParameter,
+    BaseError,
+    ContractErrorName,
+    ContractFunctionRevertedError,
+    decodeAbiParameters,
+    formatEther,
+    Hex,
+    hexToBigInt,
+    parseAbi,
+    RawContractError,
+    size,
+    sliceHex,
+    toFunctionSelector
+} from "viem"
+import { formatAbiItem } from "viem/utils"
+
+import * as abis from "../abi"
+import { ProposalState } from "./governance/proposalTracker"
+import { VotingEscrowErrorParam } from "./token/lockPlanner"
+
+type AbiError = Extract<Abi[number], { type: "error" }>
+
+export type VotingEscrowErrorParamName = keyof typeof VotingEscrowErrorParam
+
+export type ProposalStateName = keyof typeof ProposalState
+
+type ContinuumAbi = (typeof abis)[keyof typeof abis]
+
+/// @notice Every custom error of the ContinuumDAO contracts, plus the Error(string) and Panic(uint256) builtins
+export type ContinuumErrorName = ContractErrorName<ContinuumAbi> | "Error" | "Panic"
+
+export interface RegisteredError {
+    selector: Hex
+    /// @notice e.g. "VotingEscrow_IsZeroAddress(uint8)"
+    signature: string
+    abiItem: AbiError
+    /// @notice Contracts whose ABI declares the error, e.g. ["VotingEscrow"]
+    contracts: string[]
+}
+
+export interface DecodedErrorArg {
+    /// @notice The parameter name, or its position for unnamed parameters
+    name: string
+    type: string
+    value: unknown
+    /// @notice The enum member name(s) for VotingEscrowErrorParam, ProposalState and ProposalState bitmap parameters
+    label?: string
+}
+
+export interface DecodedError {
+    errorName: ContinuumErrorName
+    selector: Hex
+    signature: string
+    contracts: string[]
+    args: DecodedErrorArg[]
+    /// @notice A sentence that can be shown to users as is
+    message: string
+}
+
+const BUILTIN_ERRORS = parseAbi(["error Error(string message)", "error Panic(uint256 code)"])
+
+function buildRegistry(): Map<Hex, RegisteredError> {
+    const registry = new Map<Hex, RegisteredError>()
+    const modules: [string, readonly unknown[]][] = [
+        ...Object.entries(abis).map(([name, abi]) => [name.replace(/ABI$/, ""), abi] as [string, readonly unknown[]]),
+        ["builtin", BUILTIN_ERRORS]
+    ]
+
+    for (const [contract, abi] of modules) {
+        for (const item of abi as readonly AbiError[]) {
+            if (item.type !== "error") continue
+            const signature = formatAbiItem(item)
+            const selector = toFunctionSelector(signature)
+            const registered = registry.get(selector)
+            if (registered) {
+                if (!registered.contracts.includes(contract)) registered.contracts.push(contract)
+                continue
+            }
+            registry.set(selector, { selector, signature, abiItem: item, contracts: contract === "builtin" ? [] : [contract] })
+        }
+    }
+    return registry
+}
+
+/// @notice Selector → error for every error in abi/*.ts. Errors shared by several contracts, such as the OpenZeppelin
+/// ones, are registered once with every contract that declares them.
+export const ERROR_REGISTRY: ReadonlyMap<Hex, RegisteredError> = buildRegistry()
+
+/// @notice The states set in a `GovernorUnexpectedProposalState` bitmap, where bit i stands for ProposalState i
+export function proposalStatesFromBitmap(bitmap: Hex | bigint): ProposalStateName[] {
+    const bits = typeof bitmap === "bigint" ? bitmap : hexToBigInt(bitmap)
+    return (Object.entries(ProposalState) as [ProposalStateName, number][])
+        .filter(([, state]) => (bits >> BigInt(state)) & 1n)
+        .map(([name]) => name)
+}
+
+function enumName<T extends Record<string, number>>(values: T, value: unknown): string | undefined {
+    return Object.entries(values).find(([, v]) => BigInt(v) === BigInt(value as number))?.[0]
+}
+
+function labelOf(input: AbiParameter, value: unknown, errorName: string): string | undefined {
+    const internalType = (input as { internalType?: string }).internalType
+    if (internalType === "enum VotingEscrowErrorParam") return enumName(VotingEscrowErrorParam, value)
+    if (internalType === "enum IGovernor.ProposalState") return enumName(ProposalState, value)
+    if (errorName === "GovernorUnexpectedProposalState" && input.name === "expectedStates") {
+        return proposalStatesFromBitmap(value as Hex).join(" | ")
+    }
+    return undefined
+}
+
+/**
+ * @notice Decodes revert data returned by any ContinuumDAO contract.
+ * @dev Returns undefined for empty data, for selectors that are not in the registry and for arguments that do not
+ * decode.
+ */
+export function decodeRevert(data: Hex): DecodedError | undefined {
+    if (size(data) < 4) return undefined
+    const registered = ERROR_REGISTRY.get(sliceHex(data, 0, 4))
+    if (!registered) return undefined
+
+    const { selector, signature, abiItem, contracts } = registered
+    const errorName = abiItem.name as ContinuumErrorName
+    let values: readonly unknown[] = []
+    if (abiItem.inputs.length > 0) {
+        try {
+            values = decodeAbiParameters(abiItem.inputs, sliceHex(data, 4))
+        } catch {
+            return undefined
+        }
+    }
+    const args = abiItem.inputs.map((input, i) => {
+        const label = labelOf(input, values[i], errorName)
+        return { name: input.name || String(i), type: input.type, value: values[i], ...(label !== undefined && { label }) }
+    })
+
+    const decoded = { errorName, selector, signature, contracts: [...contracts], args, message: "" }
+    decoded.message = errorMessage(decoded)
+    return decoded
+}
+
+/// @notice Finds the revert data in an error thrown by a viem call, simulation or gas estimate
+export function revertData(err: unknown): Hex | undefined {
+    if (!(err instanceof BaseError)) return undefined
+    const reverted = err.walk(e => e instanceof ContractFunctionRevertedError || e instanceof RawContractError)
+    if (reverted instanceof ContractFunctionRevertedError) return reverted.raw
+    if (reverted instanceof RawContractError) {
+        return typeof reverted.data === "object" ? reverted.data.data : reverted.data
+    }
+    return undefined
+}
+
+/// @notice The user-facing message for an error thrown by a viem call: the decoded revert if there is one, otherwise
+/// viem's short message
+export function describeError(err: unknown): string {
+    const data = revertData(err)
+    const decoded = data && decodeRevert(data)
+    if (decoded) return decoded.message
+    if (err instanceof BaseError) return err.shortMessage
+    return err instanceof Error ? err.message : String(err)
+}
+
+// how each VotingEscrowErrorParam reads in a sentence
+const PARAM_DESCRIPTIONS: Record<VotingEscrowErrorParamName, string> = {
+    Sender: "the caller",
+    Admin: "the admin",
+    Owner: "the token owner",
+    Gov: "the governor",
+    Value: "the value",
+    Approved: "the approved address",
+    ApprovedOrOwner: "the token owner or an approved address",
+    Implementation: "the implementation",
+    Treasury: "the treasury",
+    Token: "the token",
+    Rewards: "the Rewards contract",
+    NodeProperties: "the NodeProperties contract",
+    MinLock: "the minimum lock amount"
+}
+
+// Panic(uint256) codes, see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: Record<number, string> = {
+    0x01: "assertion failed",
+    0x11: "arithmetic overflow or underflow",
+    0x12: "division or modulo by zero",
+    0x21: "invalid enum value",
+    0x22: "invalid storage byte array",
+    0x31: "pop on an empty array",
+    0x32: "array index out of bounds",
+    0x41: "out of memory",
+    0x51: "call to an uninitialized function"
+}
+
+const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString()
+
+// decoded arguments by name, as decodeAbiParameters returns them. Messages convert the values they format.
+type Arg = { value: unknown; label?: string }
+type Args = Record<string, Arg>
+
+const ether = (arg: Arg) => formatEther(BigInt(String(arg.value)))
+
+const time = (arg: Arg) => formatTime(BigInt(String(arg.value)))
+
+const describeParam = (arg: Arg) => PARAM_DESCRIPTIONS[arg.label as VotingEscrowErrorParamName] ?? "an unknown account"
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+const onlyAuthorized = (a: Args) => `Only ${describeParam(a[1])} can do this`
+
+const MESSAGES: Partial<Record<ContinuumErrorName, (a: Args) => string>> = {
+    Error: a => String(a.message.value) || "The transaction reverted",
+    Panic: a => `The contract panicked: ${PANIC_REASONS[Number(a.code.value)] ?? `code ${a.code.value}`}`,
+
+    CTM_ExceedsMaxSupply: () => "Minting this amount would exceed the CTM max supply",
+    CTM_FeeNumeratorTooHigh: () => "The fee cannot exceed 10%",
+    ERC20InsufficientAllowance: a => `Allowance of ${ether(a.allowance)} CTM is below the ${ether(a.needed)} CTM needed`,
+    ERC20InsufficientBalance: a => `Balance of ${ether(a.balance)} CTM is below the ${ether(a.needed)} CTM needed`,
+
+    VotingEscrow_DifferentOwners: a => `Tokens #${a._from.value} and #${a._to.value} have different owners`,
+    VotingEscrow_FlashProtection: () => "The token was already transferred or voted with in this block, try again in the next one",
+    VotingEscrow_FutureLookup: a => `Cannot look up ${time(a._timepoint)}, it is after the current time ${time(a._currentTimepoint)}`,
+    VotingEscrow_InvalidAccountNonce: a => `Invalid signature nonce, the next nonce of ${a._account.value} is ${a._currentNonce.value}`,
+    VotingEscrow_InvalidUnlockTime: a => `Unlock time ${time(a._unlockTime)} is out of range, the limit is ${time(a._maxTime)}`,
+    VotingEscrow_InvalidValue: () => "The lock is too small to liquidate",
+    VotingEscrow_IsZero: a => `${capitalize(describeParam(a._account))} cannot be zero`,
+    VotingEscrow_IsZeroAddress: a =>
+        a._account.label === "Owner" ? "The token does not exist" : `${capitalize(describeParam(a._account))} cannot be the zero address`,
+    VotingEscrow_LiquidationsDisabled: () => "Liquidations are disabled",
+    VotingEscrow_LockBelowMin: a => `${ether(a._value)} CTM is below the minimum lock amount`,
+    VotingEscrow_LockExpired: a => `The lock expired at ${time(a._end)}`,
+    VotingEscrow_LockNotExpired: a => `The lock does not expire until ${time(a._end)}`,
+    VotingEscrow_NoExistingLock: () => "The token has no lock",
+    VotingEscrow_NodeAttached: a => `Token #${a._tokenId.value} is attached to a node, detach it first`,
+    VotingEscrow_NonERC721Receiver: () => "The recipient contract cannot receive veCTM tokens",
+    VotingEscrow_OnlyAuthorized: onlyAuthorized,
+    VotingEscrow_Reentrant: () => "Reentrant call",
+    VotingEscrow_SameToken: a => `Token #${a._from.value} cannot be merged into itself`,
+    VotingEscrow_Unauthorized: a => `${capitalize(describeParam(a._account))} cannot be ${describeParam(a._authorized)}`,
+    VotingEscrow_UnclaimedRewards: a => `Token #${a._tokenId.value} has unclaimed rewards, claim them first`,
+    VotingEscrow_VotingAndNonVotingMerge: a => `Tokens #${a._from.value} and #${a._to.value} cannot be merged, only one of them is non-voting`,
+    VotesExpiredSignature: a => `The signature expired at ${time(a.expiry)}`,
+
+    GovernorAlreadyCastVote: a => `${a.voter.value} has already voted on this proposal`,
+    GovernorDeltaInvalidProposal: a => `Invalid Delta proposal: ${a.nOptions.value} options with ${a.nWinners.value} winners`,
+    GovernorDeltaInvalidVoteParams: () => "Invalid Delta vote: the option weights do not match the proposal",
+    GovernorDeltaOutOfBounds: a => `Option operation index ${a.index.value} is out of bounds, the proposal has ${a.limit.value} operations`,
+    GovernorInsufficientProposerVotes: a =>
+        `${a.proposer.value} has ${ether(a.votes)} votes, the proposal threshold is ${ether(a.threshold)}`,
+    GovernorInvalidProposalLength: a =>
+        `Proposal has ${a.targets.value} targets, ${a.calldatas.value} calldatas and ${a.values.value} values, they must match`,
+    GovernorInvalidQuorumFraction: a => `Quorum numerator ${a.quorumNumerator.value} exceeds the denominator ${a.quorumDenominator.value}`,
+    GovernorInvalidQuorumTooLarge: a => `Quorum numerator ${a.quorumNumerator.value} exceeds the super quorum numerator ${a.superQuorumNumerator.value}`,
+    GovernorInvalidSuperQuorumFraction: a => `Super quorum numerator ${a.superQuorumNumerator.value} exceeds the denominator ${a.denominator.value}`,
+    GovernorInvalidSuperQuorumTooSmall: a => `Super quorum numerator ${a.superQuorumNumerator.value} is below the quorum numerator ${a.quorumNumerator.value}`,
+    GovernorInvalidSignature: a => `Invalid vote signature for ${a.voter.value}`,
+    GovernorInvalidVoteType: () => "Invalid vote type, use Against (0), For (1) or Abstain (2)",
+    GovernorNonIncrementingOptionIndices: () => "Option operation indices must be increasing",
+    GovernorNonexistentProposal: a => `Proposal ${a.proposalId.value} does not exist`,
+    GovernorOnlyExecutor: a => `${a.account.value} is not the governor's executor`,
+    GovernorUnableToCancel: a => `${a.account.value} cannot cancel proposal ${a.proposalId.value}`,
+    GovernorUnexpectedProposalState: a => a.expectedStates.label
+        ? `Proposal is ${a.current.label}, it must be ${a.expectedStates.label.split(" | ").join(" or ")}`
+        : `Proposal is ${a.current.label}, the action is not allowed in any state`,
+
+    NodeProperties_InvalidInitialization: () => "The Rewards address cannot be the zero address",
+    NodeProperties_InvalidNodeId: () => "The node ID cannot be empty",
+    NodeProperties_InvalidNodeQualityOf: a => `Node quality ${a._nodeQualityOf.value} is out of range, it must be at most 10`,
+    NodeProperties_NodeIDAlreadyAttached: a => `Node ${a._nodeId.value} is already attached to a token`,
+    NodeProperties_NodeRewardThresholdNotReached: a => `Token #${a._tokenId.value} does not hold enough voting power to run a node`,
+    NodeProperties_OnlyAuthorized: onlyAuthorized,
+    NodeProperties_TokenIDAlreadyAttached: a => `Token #${a._tokenId.value} is already attached to a node`,
+    NodeProperties_TokenIDNotAttached: a => `Token #${a._tokenId.value} is not attached to a node`,
+
+    Rewards_EmissionRateChangeTooHigh: () => "Emission rates cannot exceed 1%",
+    Rewards_FeesAlreadyReceivedFromChain: () => "Fees from this chain were already received at this timestamp",
+    Rewards_InsufficientContractBalance: a =>
+        `The Rewards contract holds ${ether(a._balance)}, ${ether(a._required)} is required`,
+    Rewards_InvalidToken: a => `${a._token.value} is neither the fee token nor the reward token`,
+    Rewards_NoUnclaimedRewards: () => "There are no rewards to claim",
+    Rewards_OnlyAuthorized: onlyAuthorized
+}
+
+/// @notice The user-facing message for a decoded error. Errors without a message of their own render as their
+/// signature with decoded arguments, e.g. "SafeCastOverflowedUintDowncast(bits: 48, value: ...)".
+export function errorMessage(error: Pick<DecodedError, "errorName" | "args">): string {
+    const args: Args = Object.fromEntries(error.args.map(arg => [arg.name, arg]))
+    const message = MESSAGES[error.errorName]
+    if (message) return message(args)
+    return `${error.errorName}(${error.args.map(arg => `${arg.name}: ${arg.label ?? String(arg.value)}`).join(", ")})`
+}
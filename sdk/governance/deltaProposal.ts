@@ -0,0 +1,158 @@
+import { Address, concat, encodeAbiParameters, Hex, keccak256, numberToHex, toHex, zeroAddress } from "viem"
+
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+
+/// @notice One call executed if its option wins
+export interface ProposalOperation {
+    target: Address
+    value?: bigint
+    calldata: Hex
+}
+
+/// @notice The `calldatas[0]` header of a Delta proposal, see GovernorCountingMultiple._extractMetadata
+export interface DeltaMetadata {
+    nOptions: bigint
+    nWinners: bigint
+    /// @notice Start of each option's operations in targets/values/calldatas
+    optionIndices: bigint[]
+}
+
+export interface DeltaOption {
+    name: string
+    /// @notice Position of the option, as used by proposalVotesDelta and the vote params
+    index: number
+    /// @notice Position of the option's first operation in targets/values/calldatas
+    startIndex: bigint
+    operations: ProposalOperation[]
+}
+
+export interface DeltaProposal {
+    /// @notice Arguments for `propose`, ready for viem's writeContract or simulateContract
+    request: {
+        abi: typeof CTMDAOGovernorABI
+        functionName: "propose"
+        args: readonly [targets: Address[], values: bigint[], calldatas: Hex[], description: string]
+    }
+    proposalId: bigint
+    descriptionHash: Hex
+    metadata: DeltaMetadata
+    options: DeltaOption[]
+}
+
+/// @notice Thrown for proposals that `propose` would reject, named after the governor error
+export class DeltaProposalError extends Error {
+    constructor(public readonly errorName: string, message: string) {
+        super(`${errorName}: ${message}`)
+        this.name = "DeltaProposalError"
+    }
+}
+
+const word = (value: bigint) => numberToHex(value, { size: 32 })
+
+/// @notice Encodes the metadata as consecutive 32 byte words: nOptions, nWinners, then one start index per option
+export function encodeDeltaMetadata({ nOptions, nWinners, optionIndices }: DeltaMetadata): Hex {
+    return concat([word(nOptions), word(nWinners), ...optionIndices.map(word)])
+}
+
+/// @notice keccak256 of the description, as passed to queue and execute
+export function hashDescription(description: string): Hex {
+    return keccak256(toHex(description))
+}
+
+/// @notice Same as the governor's `hashProposal` and `getProposalId`
+export function hashProposal(targets: readonly Address[], values: readonly bigint[], calldatas: readonly Hex[], descriptionHash: Hex): bigint {
+    return BigInt(keccak256(encodeAbiParameters(
+        [{ type: "address[]" }, { type: "uint256[]" }, { type: "bytes[]" }, { type: "bytes32" }],
+        [targets, values, calldatas, descriptionHash]
+    )))
+}
+
+/**
+ * @notice Assembles a multiple-option (Delta) proposal for GovernorCountingMultiple.
+ * @dev The top `nWinners` options by votes are executed. Option names are not stored on-chain; options are
+ * identified by their position, in the order they were added.
+ *
+ *     const { request, proposalId } = new DeltaProposalBuilder("#12: Set emission rate")
+ *         .addOption("Keep", [noop])
+ *         .addOption("Raise", [setRate(2n)])
+ *         .setWinners(1)
+ *         .build()
+ */
+export class DeltaProposalBuilder {
+    private readonly options: { name: string; operations: ProposalOperation[] }[] = []
+    private nWinners = 1n
+
+    constructor(private description = "") {}
+
+    describe(description: string): this {
+        this.description = description
+        return this
+    }
+
+    /// @notice Adds an option. Every option needs at least one operation, since start indices must strictly increase.
+    addOption(name: string, operations: ProposalOperation[]): this {
+        if (this.options.some(option => option.name === name)) {
+            throw new Error(`DeltaProposalBuilder: duplicate option name "${name}"`)
+        }
+        this.options.push({ name, operations: [...operations] })
+        return this
+    }
+
+    setWinners(nWinners: number | bigint): this {
+        this.nWinners = BigInt(nWinners)
+        return this
+    }
+
+    build(): DeltaProposal {
+        const nOptions = BigInt(this.options.length)
+        const { nWinners } = this
+
+        if (nOptions < 2n || nWinners === 0n || nWinners >= nOptions) {
+            throw new DeltaProposalError(
+                "GovernorDeltaInvalidProposal",
+                `need at least 2 options and 0 < nWinners < nOptions, got ${nOptions} options and ${nWinners} winners`
+            )
+        }
+
+        // an empty option shares its start index with the next one, or points past the end if it is the last
+        const empty = this.options.findIndex(option => option.operations.length === 0)
+        if (empty !== -1) {
+            throw new DeltaProposalError(
+                empty === this.options.length - 1 ? "GovernorDeltaOutOfBounds" : "GovernorNonIncrementingOptionIndices",
+                `option "${this.options[empty].name}" has no operations`
+            )
+        }
+
+        // index 0 holds the metadata, so the first option starts at 1
+        const targets: Address[] = [zeroAddress]
+        const values: bigint[] = [0n]
+        const calldatas: Hex[] = []
+        const options: DeltaOption[] = []
+
+        this.options.forEach(({ name, operations }, index) => {
+            options.push({ name, index, startIndex: BigInt(targets.length), operations })
+            operations.forEach(({ target, value, calldata }) => {
+                targets.push(target)
+                values.push(value ?? 0n)
+                calldatas.push(calldata)
+            })
+        })
+
+        const metadata = { nOptions, nWinners, optionIndices: options.map(option => option.startIndex) }
+        calldatas.unshift(encodeDeltaMetadata(metadata))
+
+        const descriptionHash = hashDescription(this.description)
+
+        return {
+            request: {
+                abi: CTMDAOGovernorABI,
+                functionName: "propose",
+                args: [targets, values, calldatas, this.description]
+            },
+            proposalId: hashProposal(targets, values, calldatas, descriptionHash),
+            descriptionHash,
+            metadata,
+            options
+        }
+    }
+}
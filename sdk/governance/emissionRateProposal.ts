@@ -0,0 +1,164 @@
+import { Address, encodeFunctionData, formatUnits, Hex } from "viem"
+
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { RewardsABI } from "../../abi/Rewards"
+import { MULTIPLIER } from "../node/rewardsSimulator"
+import { DeltaProposal, DeltaProposalBuilder, hashDescription, hashProposal, ProposalOperation } from "./deltaProposal"
+
+/// @notice The highest rate _setBaseEmissionRate and _setNodeEmissionRate accept, 1% of MULTIPLIER per day
+export const MAX_EMISSION_RATE = MULTIPLIER / 100n
+
+export type EmissionRateKind = "base" | "node"
+
+const SETTERS = {
+    base: "setBaseEmissionRate",
+    node: "setNodeEmissionRate"
+} as const
+
+/// @notice An ordinary (Bravo) proposal, in the same shape as DeltaProposal
+export interface BravoProposal {
+    request: {
+        abi: typeof CTMDAOGovernorABI
+        functionName: "propose"
+        args: readonly [targets: Address[], values: bigint[], calldatas: Hex[], description: string]
+    }
+    proposalId: bigint
+    descriptionHash: Hex
+}
+
+export interface EmissionRateStep {
+    /// @notice 1-based position in the schedule
+    step: number
+    from: bigint
+    to: bigint
+    proposal: BravoProposal
+}
+
+export interface EmissionRateScheduleParams {
+    rewards: Address
+    kind: EmissionRateKind
+    current: bigint
+    target: bigint
+    /// @notice Largest change per proposal. The contract only caps the rate itself, so this is a governance policy;
+    /// omit it to reach the target in one proposal.
+    maxStep?: bigint
+    /// @notice Prefix for each step's description, e.g. "CIP-12"
+    title?: string
+}
+
+/**
+ * @notice Thrown for rates that cannot be set: above the maximum, which the Rewards contract rejects with
+ * Rewards_EmissionRateChangeTooHigh, or negative, which cannot be encoded as a uint256.
+ */
+export class EmissionRateError extends Error {
+    constructor(public readonly errorName: "Rewards_EmissionRateChangeTooHigh" | "NegativeEmissionRate", public readonly rate: bigint) {
+        super(
+            errorName === "NegativeEmissionRate"
+                ? `${errorName}: ${formatEmissionRate(rate)} is below zero`
+                : `${errorName}: ${formatEmissionRate(rate)} exceeds the maximum of ${formatEmissionRate(MAX_EMISSION_RATE)}`
+        )
+        this.name = "EmissionRateError"
+    }
+}
+
+/// @notice A rate as a daily percentage of voting power, e.g. "0.05%" for 5e14
+export function formatEmissionRate(rate: bigint): string {
+    return `${formatUnits(rate * 100n, 18)}%`
+}
+
+/// @notice Throws where `setBaseEmissionRate(rate)` or `setNodeEmissionRate(rate)` would revert or fail to encode
+export function checkEmissionRate(rate: bigint): void {
+    if (rate < 0n) {
+        throw new EmissionRateError("NegativeEmissionRate", rate)
+    }
+    if (rate > MAX_EMISSION_RATE) {
+        throw new EmissionRateError("Rewards_EmissionRateChangeTooHigh", rate)
+    }
+}
+
+/// @notice The call setting the base or node emission rate, checked against the contract's limit
+export function emissionRateOperation(rewards: Address, kind: EmissionRateKind, rate: bigint): ProposalOperation {
+    checkEmissionRate(rate)
+    return {
+        target: rewards,
+        calldata: encodeFunctionData({ abi: RewardsABI, functionName: SETTERS[kind], args: [rate] })
+    }
+}
+
+/// @notice Assembles an ordinary proposal executing `operations` in order
+export function buildProposal(operations: ProposalOperation[], description: string): BravoProposal {
+    const targets = operations.map(operation => operation.target)
+    const values = operations.map(operation => operation.value ?? 0n)
+    const calldatas = operations.map(operation => operation.calldata)
+    const descriptionHash = hashDescription(description)
+
+    return {
+        request: { abi: CTMDAOGovernorABI, functionName: "propose", args: [targets, values, calldatas, description] },
+        proposalId: hashProposal(targets, values, calldatas, descriptionHash),
+        descriptionHash
+    }
+}
+
+/// @notice The rates to set on the way from `current` to `target`, at most `maxStep` apart, ending at `target`
+export function planEmissionRateSteps(current: bigint, target: bigint, maxStep?: bigint): bigint[] {
+    checkEmissionRate(target)
+    if (maxStep !== undefined && maxStep <= 0n) {
+        throw new Error(`planEmissionRateSteps: maxStep must be positive, got ${maxStep}`)
+    }
+
+    const rates: bigint[] = []
+    let rate = current
+    while (rate !== target) {
+        const remaining = target - rate
+        const distance = remaining < 0n ? -remaining : remaining
+        if (maxStep === undefined || distance <= maxStep) {
+            rate = target
+        } else {
+            rate += remaining < 0n ? -maxStep : maxStep
+        }
+        rates.push(rate)
+    }
+    return rates
+}
+
+/**
+ * @notice One proposal per step from the current rate to the target, each to be submitted once the previous one
+ * has executed.
+ * @dev Every step's rate is checked against MAX_EMISSION_RATE. Proposal IDs depend on the description, so each
+ * step's description names its position in the schedule.
+ */
+export function buildEmissionRateSchedule({ rewards, kind, current, target, maxStep, title }: EmissionRateScheduleParams): EmissionRateStep[] {
+    const rates = planEmissionRateSteps(current, target, maxStep)
+    return rates.map((rate, i) => {
+        const from = i === 0 ? current : rates[i - 1]
+        const description =
+            `${title ? `${title}: ` : ""}Set the ${kind} emission rate from ${formatEmissionRate(from)} to ${formatEmissionRate(rate)}` +
+            (rates.length > 1 ? ` (step ${i + 1} of ${rates.length})` : "")
+        return { step: i + 1, from, to: rate, proposal: buildProposal([emissionRateOperation(rewards, kind, rate)], description) }
+    })
+}
+
+/**
+ * @notice A Delta proposal letting voters pick one of several candidate rates, or keep the current one. Repeated
+ * candidates get a single option.
+ * @dev Every Delta option needs an operation, so keeping the rate re-sets the current value, which only adds a
+ * checkpoint with the same rate.
+ */
+export function buildEmissionRateDeltaProposal(
+    rewards: Address,
+    kind: EmissionRateKind,
+    current: bigint,
+    candidates: bigint[],
+    description: string
+): DeltaProposal {
+    const builder = new DeltaProposalBuilder(description)
+        .addOption(`Keep ${formatEmissionRate(current)}`, [emissionRateOperation(rewards, kind, current)])
+
+    for (const rate of new Set(candidates)) {
+        if (rate !== current) {
+            builder.addOption(`Set ${formatEmissionRate(rate)}`, [emissionRateOperation(rewards, kind, rate)])
+        }
+    }
+
+    return builder.setWinners(1).build()
+}
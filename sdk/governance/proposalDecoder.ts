@@ -0,0 +1,241 @@
+import { Abi, Address, decodeFunctionData, Hex, isAddressEqual, PublicClient, size, sliceHex, zeroAddress } from "viem"
+
+import { CTMABI } from "../../abi/CTM"
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { CTMHomeABI } from "../../abi/CTMHome"
+import { NodePropertiesABI } from "../../abi/NodeProperties"
+import { RewardsABI } from "../../abi/Rewards"
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import { Deployment } from "../deployments"
+import { DeltaMetadata, hashProposal } from "./deltaProposal"
+
+/// @notice A proposal as returned by `proposalDetails(proposalId)`
+export interface ProposalDetails {
+    targets: readonly Address[]
+    values: readonly bigint[]
+    calldatas: readonly Hex[]
+    descriptionHash: Hex
+}
+
+export interface DecodedOperation {
+    target: Address
+    value: bigint
+    calldata: Hex
+    /// @notice Name of the contract whose ABI decoded the calldata, undefined if none did
+    contractName?: string
+    functionName?: string
+    args?: readonly unknown[]
+    /// @notice e.g. "Rewards.setBaseEmissionRate(500000000000000)", or the raw selector for unknown calls
+    summary: string
+}
+
+export interface DecodedOption {
+    index: number
+    startIndex: bigint
+    operations: DecodedOperation[]
+}
+
+/// @notice A check the governor would fail at `propose`, named after the error it would revert with
+export interface ProposalIssue {
+    errorName: string
+    message: string
+}
+
+export type DecodedProposal =
+    | { kind: "bravo"; proposalId: bigint; operations: DecodedOperation[]; issues: ProposalIssue[] }
+    | { kind: "delta"; proposalId: bigint; metadata: DeltaMetadata; options: DecodedOption[]; issues: ProposalIssue[] }
+
+const KNOWN_ABIS: { name: string; abi: Abi }[] = [
+    { name: "CTM", abi: CTMABI },
+    { name: "CTMHome", abi: CTMHomeABI },
+    { name: "VotingEscrow", abi: VotingEscrowABI },
+    { name: "CTMDAOGovernor", abi: CTMDAOGovernorABI },
+    { name: "NodeProperties", abi: NodePropertiesABI },
+    { name: "Rewards", abi: RewardsABI }
+]
+
+/// @notice Same test as GovernorCountingMultiple._propose: Delta proposals have no target at index 0
+export function isDeltaProposal(targets: readonly Address[], calldatas: readonly Hex[]): boolean {
+    return targets.length !== 0 && isAddressEqual(targets[0], zeroAddress) && calldatas.length !== 0
+}
+
+/**
+ * @notice Decodes a `calldatas[0]` header as _extractMetadata reads it, one 32 byte word at a time.
+ * @dev The contract reads past the end of a short header into unrelated memory; here missing words read as zero
+ * and are reported as an issue.
+ */
+export function decodeDeltaMetadata(data: Hex): { metadata: DeltaMetadata; issues: ProposalIssue[] } {
+    const issues: ProposalIssue[] = []
+    const length = size(data)
+    let truncated = false
+
+    const word = (i: number): bigint => {
+        if ((i + 1) * 32 > length) {
+            truncated = true
+            return 0n
+        }
+        return BigInt(sliceHex(data, i * 32, (i + 1) * 32))
+    }
+
+    const nOptions = word(0)
+    const nWinners = word(1)
+    const optionIndices: bigint[] = []
+
+    // bound the loop for malformed headers, no valid proposal can have more options than header words
+    for (let i = 0n; i < nOptions && i < BigInt(Math.ceil(length / 32)); i++) {
+        optionIndices.push(word(2 + Number(i)))
+    }
+
+    if (truncated || BigInt(optionIndices.length) < nOptions) {
+        issues.push({
+            errorName: "GovernorDeltaInvalidProposal",
+            message: `metadata is ${length} bytes, expected ${(2n + nOptions) * 32n} for ${nOptions} options`
+        })
+    }
+
+    return { metadata: { nOptions, nWinners, optionIndices }, issues }
+}
+
+/// @notice The checks of GovernorCountingMultiple._propose and _extractMetadata, in the order the contract makes them
+export function validateDeltaMetadata(metadata: DeltaMetadata, nOperations: number): ProposalIssue[] {
+    const { nOptions, nWinners, optionIndices } = metadata
+    const issues: ProposalIssue[] = []
+
+    optionIndices.forEach((index, i) => {
+        if (i > 0 && index <= optionIndices[i - 1]) {
+            issues.push({
+                errorName: "GovernorNonIncrementingOptionIndices",
+                message: `option ${i} starts at ${index}, not after option ${i - 1} at ${optionIndices[i - 1]}`
+            })
+        }
+    })
+
+    if (nOptions < 2n || nWinners === 0n || nWinners >= nOptions) {
+        issues.push({
+            errorName: "GovernorDeltaInvalidProposal",
+            message: `need at least 2 options and 0 < nWinners < nOptions, got ${nOptions} options and ${nWinners} winners`
+        })
+    }
+
+    optionIndices.forEach((index, i) => {
+        if (index >= BigInt(nOperations)) {
+            issues.push({ errorName: "GovernorDeltaOutOfBounds", message: `option ${i} starts at ${index}, past the last operation ${nOperations - 1}` })
+        }
+    })
+
+    return issues
+}
+
+/**
+ * @notice Decodes a call against the ABIs in abi/. When the target is a contract of `deployment`, its ABI is tried
+ * first, then the others in order, so that a call the deployment's ABI does not know still decodes.
+ */
+export function decodeOperation(target: Address, value: bigint, calldata: Hex, deployment?: Deployment): DecodedOperation {
+    const known = deployment && Object.entries(deployment).find(([key, contract]) =>
+        key !== "votingEscrowImplementation" && typeof contract === "object" && isAddressEqual(contract.address, target)
+    )
+    const candidates = known
+        ? [...KNOWN_ABIS.filter(({ abi }) => abi === known[1].abi), ...KNOWN_ABIS.filter(({ abi }) => abi !== known[1].abi)]
+        : KNOWN_ABIS
+
+    for (const { name, abi } of candidates) {
+        try {
+            const { functionName, args = [] } = decodeFunctionData({ abi, data: calldata })
+            return {
+                target,
+                value,
+                calldata,
+                contractName: name,
+                functionName,
+                args,
+                summary: `${name}.${functionName}(${args.map(formatArg).join(", ")})`
+            }
+        } catch {
+            // not a function of this contract
+        }
+    }
+
+    const selector = size(calldata) >= 4 ? sliceHex(calldata, 0, 4) : calldata
+    return { target, value, calldata, summary: `${target}.${selector}` }
+}
+
+/**
+ * @notice Splits a stored proposal into its options and decodes every operation.
+ * @param details The output of `proposalDetails(proposalId)`.
+ * @param deployment The deployment the governor belongs to, used to name targets.
+ * @dev Issues are empty for proposals that were accepted by `propose`; drafts can be checked the same way.
+ */
+export function decodeProposal(details: ProposalDetails, deployment?: Deployment): DecodedProposal {
+    const { targets, values, calldatas, descriptionHash } = details
+    const proposalId = hashProposal(targets, values, calldatas, descriptionHash)
+    const issues: ProposalIssue[] = []
+
+    if (targets.length === 0 || targets.length !== values.length || values.length !== calldatas.length) {
+        issues.push({
+            errorName: "GovernorInvalidProposalLength",
+            message: `${targets.length} targets, ${calldatas.length} calldatas and ${values.length} values`
+        })
+    }
+
+    const operation = (i: number) => decodeOperation(targets[i], values[i] ?? 0n, calldatas[i] ?? "0x", deployment)
+    const count = Math.min(targets.length, values.length, calldatas.length)
+
+    if (!isDeltaProposal(targets, calldatas)) {
+        return { kind: "bravo", proposalId, operations: Array.from({ length: count }, (_, i) => operation(i)), issues }
+    }
+
+    const decoded = decodeDeltaMetadata(calldatas[0])
+    const { metadata } = decoded
+    issues.push(...decoded.issues, ...validateDeltaMetadata(metadata, targets.length))
+
+    const options = metadata.optionIndices.map((startIndex, index) => {
+        const end = index === metadata.optionIndices.length - 1 ? BigInt(count) : metadata.optionIndices[index + 1]
+        const operations: DecodedOperation[] = []
+        for (let i = startIndex; i < end && i < BigInt(count); i++) {
+            operations.push(operation(Number(i)))
+        }
+        return { index, startIndex, operations }
+    })
+
+    return { kind: "delta", proposalId, metadata, options, issues }
+}
+
+/// @notice Reads `proposalDetails(proposalId)` from `governor` and decodes it
+export async function fetchProposal(
+    client: PublicClient,
+    governor: Address,
+    proposalId: bigint,
+    deployment?: Deployment
+): Promise<DecodedProposal> {
+    const [targets, values, calldatas, descriptionHash] = await client.readContract({
+        address: governor,
+        abi: CTMDAOGovernorABI,
+        functionName: "proposalDetails",
+        args: [proposalId]
+    })
+    return decodeProposal({ targets, values, calldatas, descriptionHash }, deployment)
+}
+
+/// @notice Reads `proposalDetailsAt(index)` from `governor`, the proposal at `index` in order of creation, and decodes it
+export async function fetchProposalAt(
+    client: PublicClient,
+    governor: Address,
+    index: bigint,
+    deployment?: Deployment
+): Promise<DecodedProposal> {
+    const [, targets, values, calldatas, descriptionHash] = await client.readContract({
+        address: governor,
+        abi: CTMDAOGovernorABI,
+        functionName: "proposalDetailsAt",
+        args: [index]
+    })
+    return decodeProposal({ targets, values, calldatas, descriptionHash }, deployment)
+}
+
+function formatArg(arg: unknown): string {
+    if (Array.isArray(arg)) return `[${arg.map(formatArg).join(", ")}]`
+    if (typeof arg === "bigint") return arg.toString()
+    if (typeof arg === "string") return /^0x/.test(arg) ? arg : JSON.stringify(arg)
+    if (arg && typeof arg === "object") return `{${Object.entries(arg).map(([key, value]) => `${key}: ${formatArg(value)}`).join(", ")}}`
+    return String(arg)
+}
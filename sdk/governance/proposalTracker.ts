@@ -0,0 +1,276 @@
+import { Address, decodeEventLog, DecodeEventLogReturnType, Hex, Log, PublicClient } from "viem"
+
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { decodeDeltaMetadata, isDeltaProposal } from "./proposalDecoder"
+import { appliedVotes, decodeVoteParams } from "./voteParams"
+
+/// @notice IGovernor.ProposalState. Expired is never reached, as the governor has no timelock.
+export const ProposalState = {
+    Pending: 0,
+    Active: 1,
+    Canceled: 2,
+    Defeated: 3,
+    Succeeded: 4,
+    Queued: 5,
+    Expired: 6,
+    Executed: 7
+} as const
+
+export type ProposalState = (typeof ProposalState)[keyof typeof ProposalState]
+
+/// @notice A decoded governor log with the position and timestamp of its block, see decodeGovernorLog
+export type GovernorEvent = DecodeEventLogReturnType<typeof CTMDAOGovernorABI> & {
+    blockNumber: bigint
+    logIndex: number
+    timestamp: bigint
+}
+
+export interface DeadlineExtension {
+    /// @notice The deadline before the extension
+    from: bigint
+    to: bigint
+    /// @notice Time of the vote that reached quorum
+    timestamp: bigint
+    blockNumber: bigint
+}
+
+/// @notice `quorum(snapshot)` and `superQuorum(snapshot)`, fixed once the snapshot has passed
+export interface ProposalThresholds {
+    quorum: bigint
+    superQuorum: bigint
+}
+
+export interface TrackedProposal {
+    proposalId: bigint
+    proposer: Address
+    description: string
+    /// @notice Options of a Delta proposal, 0 for Bravo proposals
+    nOptions: bigint
+    /// @notice `proposalSnapshot`: voting opens after this timestamp
+    snapshot: bigint
+    /// @notice `proposalDeadline`, including any late quorum extension: voting closes after this timestamp
+    deadline: bigint
+    extensions: DeadlineExtension[]
+    /// @notice Bravo tallies by support (against, for, abstain), or Delta tallies by option
+    votes: bigint[]
+    /// @notice The tally that counts towards quorum: for + abstain, or every Delta vote
+    totalVotes: bigint
+    voters: number
+    /// @notice Time of the vote that reached quorum, after which the deadline can no longer be extended
+    quorumReachedAt?: bigint
+    /// @notice Time of the vote that reached super quorum, making the proposal succeed before its deadline
+    superQuorumReachedAt?: bigint
+    eta: bigint
+    canceledAt?: bigint
+    executedAt?: bigint
+    thresholds?: ProposalThresholds
+}
+
+/// @notice When the proposal's state changes next, assuming no further events
+export interface ProposalTransition {
+    state: ProposalState
+    at: bigint
+}
+
+/// @notice Decodes a raw governor log, returning undefined for logs of other contracts or unknown events
+export function decodeGovernorLog(log: Log, timestamp: bigint): GovernorEvent | undefined {
+    try {
+        const decoded = decodeEventLog({ abi: CTMDAOGovernorABI, data: log.data, topics: log.topics })
+        return { ...decoded, blockNumber: log.blockNumber ?? 0n, logIndex: log.logIndex ?? 0, timestamp }
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * @notice Follows proposals through their lifecycle from governor events alone, so that state can be read at any
+ * time without calling `state()`.
+ * @dev Events must be applied in chain order. Tallies are rebuilt as _countVote builds them, and a deadline
+ * extension is recorded from ProposalExtended. Whether a closed proposal was defeated depends on its quorum, and
+ * early success on its super quorum: set them with setThresholds or loadThresholds once the snapshot has passed.
+ */
+export class ProposalTracker {
+    readonly proposals = new Map<bigint, TrackedProposal>()
+    private readonly seen = new Set<string>()
+    // running tallies after each vote, to place quorum and super quorum in time once thresholds are known
+    private readonly tallies = new Map<bigint, { timestamp: bigint; totalVotes: bigint; forVotes: bigint; succeeded: boolean }[]>()
+
+    /// @param lateQuorumVoteExtension `lateQuorumVoteExtension()`, updated by LateQuorumVoteExtensionSet events
+    constructor(public lateQuorumVoteExtension: bigint) {}
+
+    apply(event: GovernorEvent): void {
+        const key = `${event.blockNumber}:${event.logIndex}`
+        if (this.seen.has(key)) return
+        this.seen.add(key)
+
+        switch (event.eventName) {
+            case "ProposalCreated": {
+                const { proposalId, proposer, targets, calldatas, voteStart, voteEnd, description } = event.args
+                const nOptions = isDeltaProposal(targets, calldatas) ? decodeDeltaMetadata(calldatas[0]).metadata.nOptions : 0n
+                this.proposals.set(proposalId, {
+                    proposalId,
+                    proposer,
+                    description,
+                    nOptions,
+                    snapshot: voteStart,
+                    deadline: voteEnd,
+                    extensions: [],
+                    votes: Array.from({ length: nOptions === 0n ? 3 : Number(nOptions) }, () => 0n),
+                    totalVotes: 0n,
+                    voters: 0,
+                    eta: 0n
+                })
+                break
+            }
+            case "VoteCast":
+                this.countVote(event, event.args.proposalId, event.args.support, event.args.weight, "0x")
+                break
+            case "VoteCastWithParams":
+                this.countVote(event, event.args.proposalId, event.args.support, event.args.weight, event.args.params)
+                break
+            case "ProposalExtended": {
+                const proposal = this.get(event.args.proposalId)
+                proposal.extensions.push({
+                    from: proposal.deadline,
+                    to: event.args.extendedDeadline,
+                    timestamp: event.timestamp,
+                    blockNumber: event.blockNumber
+                })
+                proposal.deadline = event.args.extendedDeadline
+                break
+            }
+            case "ProposalQueued":
+                this.get(event.args.proposalId).eta = event.args.etaSeconds
+                break
+            case "ProposalExecuted":
+                this.get(event.args.proposalId).executedAt = event.timestamp
+                break
+            case "ProposalCanceled":
+                this.get(event.args.proposalId).canceledAt = event.timestamp
+                break
+            case "LateQuorumVoteExtensionSet":
+                this.lateQuorumVoteExtension = event.args.newVoteExtension
+                break
+        }
+    }
+
+    setThresholds(proposalId: bigint, thresholds: ProposalThresholds): void {
+        const proposal = this.get(proposalId)
+        proposal.thresholds = thresholds
+        this.markThresholds(proposal)
+    }
+
+    /// @notice Reads the thresholds of every proposal whose snapshot is before `now` and that has none yet
+    async loadThresholds(client: PublicClient, governor: Address, now: bigint): Promise<void> {
+        const missing = [...this.proposals.values()].filter(proposal => !proposal.thresholds && proposal.snapshot < now)
+        await Promise.all(missing.map(async proposal => {
+            const [quorum, superQuorum] = await Promise.all([
+                client.readContract({ address: governor, abi: CTMDAOGovernorABI, functionName: "quorum", args: [proposal.snapshot] }),
+                client.readContract({ address: governor, abi: CTMDAOGovernorABI, functionName: "superQuorum", args: [proposal.snapshot] })
+            ])
+            this.setThresholds(proposal.proposalId, { quorum, superQuorum })
+        }))
+    }
+
+    /**
+     * @notice The state `state(proposalId)` returns at timestamp `t`, given the events applied so far.
+     * @dev Undefined for a proposal that is past its snapshot but has no thresholds, if the state depends on them.
+     */
+    stateAt(proposalId: bigint, t: bigint): ProposalState | undefined {
+        const proposal = this.get(proposalId)
+
+        if (proposal.executedAt !== undefined) return ProposalState.Executed
+        if (proposal.canceledAt !== undefined) return ProposalState.Canceled
+        if (proposal.snapshot >= t) return ProposalState.Pending
+
+        const succeeded = proposal.eta === 0n ? ProposalState.Succeeded : ProposalState.Queued
+        const { thresholds } = proposal
+
+        if (proposal.deadline >= t) {
+            if (proposal.superQuorumReachedAt !== undefined && proposal.superQuorumReachedAt <= t) return succeeded
+            // without thresholds, votes may already have reached super quorum
+            return thresholds || proposal.voters === 0 ? ProposalState.Active : undefined
+        }
+
+        if (!thresholds) return undefined
+        return proposal.totalVotes >= thresholds.quorum && voteSucceeded(proposal) ? succeeded : ProposalState.Defeated
+    }
+
+    /**
+     * @notice The next state change after `t` if no further events happen, or undefined if the state is final.
+     * @dev Votes can still move a proposal: reaching super quorum makes it succeed early, and reaching quorum late
+     * pushes the deadline back, at most to maxDeadline.
+     */
+    nextTransition(proposalId: bigint, t: bigint): ProposalTransition | undefined {
+        const proposal = this.get(proposalId)
+        const current = this.stateAt(proposalId, t)
+
+        if (current === ProposalState.Pending) {
+            return { state: ProposalState.Active, at: proposal.snapshot + 1n }
+        }
+        if (current === ProposalState.Active) {
+            const after = this.stateAt(proposalId, proposal.deadline + 1n)
+            return after === undefined ? undefined : { state: after, at: proposal.deadline + 1n }
+        }
+        return undefined
+    }
+
+    /// @notice The latest the deadline can move to: a vote reaching quorum at the deadline extends it by lateQuorumVoteExtension
+    maxDeadline(proposalId: bigint): bigint {
+        const proposal = this.get(proposalId)
+        return proposal.quorumReachedAt !== undefined ? proposal.deadline : proposal.deadline + this.lateQuorumVoteExtension
+    }
+
+    private countVote(event: GovernorEvent, proposalId: bigint, support: number, weight: bigint, params: Hex): void {
+        const proposal = this.get(proposalId)
+        proposal.voters++
+
+        if (proposal.nOptions === 0n) {
+            proposal.votes[support] += weight
+            if (support !== 0) proposal.totalVotes += weight
+        } else {
+            const applied = appliedVotes(decodeVoteParams(params), weight)
+            applied.forEach((votes, i) => (proposal.votes[i] += votes))
+            proposal.totalVotes += applied.reduce((a, b) => a + b, 0n)
+        }
+
+        const tallies = this.tallies.get(proposalId) ?? []
+        tallies.push({
+            timestamp: event.timestamp,
+            totalVotes: proposal.totalVotes,
+            forVotes: proposal.nOptions === 0n ? proposal.votes[1] : proposal.totalVotes,
+            succeeded: voteSucceeded(proposal)
+        })
+        this.tallies.set(proposalId, tallies)
+        this.markThresholds(proposal)
+    }
+
+    // GovernorPreventLateQuorum._tallyUpdated and GovernorSuperQuorum.state, which compares the `for` votes of
+    // proposalVotes: every vote for Delta proposals
+    private markThresholds(proposal: TrackedProposal): void {
+        const { thresholds } = proposal
+        if (!thresholds) return
+
+        for (const tally of this.tallies.get(proposal.proposalId) ?? []) {
+            if (proposal.quorumReachedAt === undefined && tally.totalVotes >= thresholds.quorum) {
+                proposal.quorumReachedAt = tally.timestamp
+            }
+            if (proposal.superQuorumReachedAt === undefined && tally.forVotes >= thresholds.superQuorum && tally.succeeded) {
+                proposal.superQuorumReachedAt = tally.timestamp
+            }
+        }
+    }
+
+    private get(proposalId: bigint): TrackedProposal {
+        const proposal = this.proposals.get(proposalId)
+        if (!proposal) {
+            throw new Error(`ProposalTracker: no ProposalCreated event for proposal ${proposalId}`)
+        }
+        return proposal
+    }
+}
+
+// GovernorCountingMultiple._voteSucceeded
+function voteSucceeded(proposal: TrackedProposal): boolean {
+    return proposal.nOptions === 0n ? proposal.votes[1] > proposal.votes[0] : proposal.totalVotes > 0n
+}
@@ -0,0 +1,191 @@
+import { Address, PublicClient } from "viem"
+
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+
+export interface QuorumThresholds {
+    /// @notice `getPastTotalSupply(snapshot)`, the veCTM voting power at the snapshot
+    supply: bigint
+    quorum: bigint
+    superQuorum: bigint
+    /// @notice True for snapshots still in the future: the supply is projected from the current locks' decay and
+    /// the numerators are the current ones. Locks created or extended before the snapshot raise it.
+    estimated: boolean
+}
+
+export type ProposalTally =
+    | { kind: "bravo"; againstVotes: bigint; forVotes: bigint; abstainVotes: bigint }
+    | { kind: "delta"; optionVotes: bigint[]; totalVotes: bigint }
+
+export interface QuorumForecastInput {
+    thresholds: QuorumThresholds
+    tally: ProposalTally
+    snapshot: bigint
+    /// @notice `proposalDeadline`, including any extension already applied
+    deadline: bigint
+    lateQuorumVoteExtension: bigint
+    /// @notice Chain time of the forecast
+    now: bigint
+}
+
+export interface QuorumForecast {
+    thresholds: QuorumThresholds
+    tally: ProposalTally
+    /// @notice Votes counted towards quorum: for + abstain, or every Delta vote
+    quorumVotes: bigint
+    /// @notice Votes counted towards super quorum: for votes, or every Delta vote
+    superQuorumVotes: bigint
+    quorumReached: boolean
+    /// @notice Super quorum reached with the vote succeeding: the proposal is Succeeded before its deadline
+    earlySuccess: boolean
+    votesToQuorum: bigint
+    votesToSuperQuorum: bigint
+    /// @notice Votes per second since voting opened, used for the projections below
+    voteRate: bigint
+    /// @notice When quorum is projected to be reached at the current vote rate, undefined if not before the deadline
+    projectedQuorumAt?: bigint
+    /// @notice When super quorum is projected to be reached, undefined if not before the deadline or if the vote is
+    /// not currently succeeding
+    projectedSuperQuorumAt?: bigint
+    /// @notice The deadline after the late quorum extension that reaching quorum at projectedQuorumAt would trigger
+    projectedDeadline: bigint
+}
+
+/// @notice Same as quorum and superQuorum: `supply * numerator / denominator`, rounded down
+export function thresholdsFromSupply(
+    supply: bigint,
+    quorumNumerator: bigint,
+    superQuorumNumerator: bigint,
+    denominator: bigint,
+    estimated = false
+): QuorumThresholds {
+    return {
+        supply,
+        quorum: (supply * quorumNumerator) / denominator,
+        superQuorum: (supply * superQuorumNumerator) / denominator,
+        estimated
+    }
+}
+
+/**
+ * @notice Reads the quorum and super quorum of a proposal with snapshot `snapshot`.
+ * @dev For past snapshots these are the governor's own `quorum` and `superQuorum`. For future ones the governor
+ * cannot answer, so the supply is projected with VotingEscrow's `totalPowerAtT(snapshot)`.
+ */
+export async function fetchThresholds(client: PublicClient, governor: Address, snapshot: bigint): Promise<QuorumThresholds> {
+    const contract = { address: governor, abi: CTMDAOGovernorABI } as const
+    const [clock, votingEscrow] = await Promise.all([
+        client.readContract({ ...contract, functionName: "clock" }),
+        client.readContract({ ...contract, functionName: "token" })
+    ])
+
+    if (snapshot < BigInt(clock)) {
+        const [supply, quorum, superQuorum] = await Promise.all([
+            client.readContract({ address: votingEscrow, abi: VotingEscrowABI, functionName: "getPastTotalSupply", args: [snapshot] }),
+            client.readContract({ ...contract, functionName: "quorum", args: [snapshot] }),
+            client.readContract({ ...contract, functionName: "superQuorum", args: [snapshot] })
+        ])
+        return { supply, quorum, superQuorum, estimated: false }
+    }
+
+    const [supply, quorumNumerator, superQuorumNumerator, denominator] = await Promise.all([
+        client.readContract({ address: votingEscrow, abi: VotingEscrowABI, functionName: "totalPowerAtT", args: [snapshot] }),
+        client.readContract({ ...contract, functionName: "quorumNumerator", args: [] }),
+        client.readContract({ ...contract, functionName: "superQuorumNumerator", args: [] }),
+        client.readContract({ ...contract, functionName: "quorumDenominator" })
+    ])
+    return thresholdsFromSupply(supply, quorumNumerator, superQuorumNumerator, denominator, true)
+}
+
+/**
+ * @notice Compares a tally against the thresholds and projects when they will be reached.
+ * @dev Projections assume votes keep arriving at the average rate since voting opened. Reaching quorum at time v
+ * moves the deadline to v + lateQuorumVoteExtension if that is later, once per proposal; a proposal that already
+ * reached quorum keeps its deadline.
+ */
+export function forecastQuorum({ thresholds, tally, snapshot, deadline, lateQuorumVoteExtension, now }: QuorumForecastInput): QuorumForecast {
+    const quorumVotes = tally.kind === "bravo" ? tally.forVotes + tally.abstainVotes : tally.totalVotes
+    const superQuorumVotes = tally.kind === "bravo" ? tally.forVotes : tally.totalVotes
+    // GovernorCountingMultiple._voteSucceeded
+    const succeeding = tally.kind === "bravo" ? tally.forVotes > tally.againstVotes : tally.totalVotes > 0n
+
+    const quorumReached = quorumVotes >= thresholds.quorum
+    const superQuorumReached = superQuorumVotes >= thresholds.superQuorum
+
+    const votesToQuorum = quorumReached ? 0n : thresholds.quorum - quorumVotes
+    const votesToSuperQuorum = superQuorumReached ? 0n : thresholds.superQuorum - superQuorumVotes
+
+    const elapsed = now > snapshot ? now - snapshot : 0n
+    const voteRate = elapsed === 0n ? 0n : quorumVotes / elapsed
+    const open = now <= deadline
+
+    const projectAt = (missing: bigint): bigint | undefined => {
+        if (missing === 0n) return now
+        if (!open || voteRate === 0n) return undefined
+        const at = now + (missing + voteRate - 1n) / voteRate
+        return at <= deadline ? at : undefined
+    }
+
+    const projectedQuorumAt = quorumReached ? undefined : projectAt(votesToQuorum)
+    const extended = projectedQuorumAt !== undefined ? projectedQuorumAt + lateQuorumVoteExtension : 0n
+
+    // with the deadline extended, super quorum has longer to be reached
+    const superQuorumDeadline = extended > deadline ? extended : deadline
+    let projectedSuperQuorumAt: bigint | undefined
+    if (succeeding && open) {
+        projectedSuperQuorumAt = superQuorumReached
+            ? now
+            : voteRate === 0n
+              ? undefined
+              : now + (votesToSuperQuorum + voteRate - 1n) / voteRate
+        if (projectedSuperQuorumAt !== undefined && projectedSuperQuorumAt > superQuorumDeadline) {
+            projectedSuperQuorumAt = undefined
+        }
+    }
+
+    return {
+        thresholds,
+        tally,
+        quorumVotes,
+        superQuorumVotes,
+        quorumReached,
+        earlySuccess: superQuorumReached && succeeding && open,
+        votesToQuorum,
+        votesToSuperQuorum,
+        voteRate,
+        ...(projectedQuorumAt !== undefined && { projectedQuorumAt }),
+        ...(projectedSuperQuorumAt !== undefined && { projectedSuperQuorumAt }),
+        projectedDeadline: superQuorumDeadline
+    }
+}
+
+/// @notice Reads a proposal's thresholds, tally and deadline from `governor` and forecasts it at the latest block
+export async function fetchQuorumForecast(client: PublicClient, governor: Address, proposalId: bigint): Promise<QuorumForecast> {
+    const contract = { address: governor, abi: CTMDAOGovernorABI } as const
+
+    const [snapshot, deadline, config, lateQuorumVoteExtension, block] = await Promise.all([
+        client.readContract({ ...contract, functionName: "proposalSnapshot", args: [proposalId] }),
+        client.readContract({ ...contract, functionName: "proposalDeadline", args: [proposalId] }),
+        client.readContract({ ...contract, functionName: "proposalConfiguration", args: [proposalId] }),
+        client.readContract({ ...contract, functionName: "lateQuorumVoteExtension" }),
+        client.getBlock()
+    ])
+
+    let tally: ProposalTally
+    if (config.nOptions === 0n) {
+        const [againstVotes, forVotes, abstainVotes] = await client.readContract({ ...contract, functionName: "proposalVotes", args: [proposalId] })
+        tally = { kind: "bravo", againstVotes, forVotes, abstainVotes }
+    } else {
+        const [optionVotes, totalVotes] = await client.readContract({ ...contract, functionName: "proposalVotesDelta", args: [proposalId] })
+        tally = { kind: "delta", optionVotes: [...optionVotes], totalVotes }
+    }
+
+    return forecastQuorum({
+        thresholds: await fetchThresholds(client, governor, snapshot),
+        tally,
+        snapshot,
+        deadline,
+        lateQuorumVoteExtension: BigInt(lateQuorumVoteExtension),
+        now: block.timestamp
+    })
+}
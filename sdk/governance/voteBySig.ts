@@ -0,0 +1,245 @@
+import {
+    Account,
+    Address,
+    BaseError,
+    Chain,
+    ContractFunctionRevertedError,
+    Hash,
+    Hex,
+    isAddressEqual,
+    PublicClient,
+    recoverTypedDataAddress,
+    Transport,
+    TypedDataDefinition,
+    TypedDataDomain,
+    WalletClient
+} from "viem"
+
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { describeError } from "../errors"
+import { ProposalIssue } from "./proposalDecoder"
+import { prepareDeltaVote, VoteAllocation } from "./voteParams"
+
+/// @notice GovernorCountingMultiple.VoteTypeSimple, the `support` of a vote on an ordinary (Bravo) proposal
+export const VoteSupport = {
+    Against: 0,
+    For: 1,
+    Abstain: 2
+} as const
+
+/// @notice Governor.BALLOT_TYPEHASH
+export const BALLOT_TYPES = {
+    Ballot: [
+        { name: "proposalId", type: "uint256" },
+        { name: "support", type: "uint8" },
+        { name: "voter", type: "address" },
+        { name: "nonce", type: "uint256" }
+    ]
+} as const
+
+/// @notice Governor.EXTENDED_BALLOT_TYPEHASH. `reason` and `params` are hashed into the struct as the governor does.
+export const EXTENDED_BALLOT_TYPES = {
+    ExtendedBallot: [
+        { name: "proposalId", type: "uint256" },
+        { name: "support", type: "uint8" },
+        { name: "voter", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "reason", type: "string" },
+        { name: "params", type: "bytes" }
+    ]
+} as const
+
+/// @notice A vote for castVoteBySig
+export interface Ballot {
+    proposalId: bigint
+    support: number
+    voter: Address
+    /// @notice `nonces(voter)` when the vote is relayed. Each relayed vote uses up one nonce.
+    nonce: bigint
+}
+
+/// @notice A vote for castVoteWithReasonAndParamsBySig. `params` are the Delta weights, "0x" for Bravo proposals.
+export interface ExtendedBallot extends Ballot {
+    reason: string
+    params: Hex
+}
+
+/// @notice Anything that signs EIP-712 typed data for `address`: a viem LocalAccount, or a wallet via walletSigner
+export interface TypedDataSigner {
+    address: Address
+    signTypedData(typedData: BallotTypedData): Promise<Hex>
+}
+
+/// @notice A Ballot or ExtendedBallot as typed data, for signTypedData, verifyTypedData and hashTypedData
+export type BallotTypedData = TypedDataDefinition
+
+export type SignedVote =
+    | { kind: "ballot"; ballot: Ballot; signature: Hex }
+    | { kind: "extended"; ballot: ExtendedBallot; signature: Hex }
+
+/// @notice Outcome of relaying one vote: the transaction hash, or the error the governor would revert with
+export interface RelayResult {
+    vote: SignedVote
+    hash?: Hash
+    error?: ProposalIssue
+}
+
+/// @notice Reads the governor's EIP-712 domain, `eip712Domain()`, as used by the BySig functions
+export async function readGovernorDomain(client: PublicClient, governor: Address): Promise<TypedDataDomain> {
+    const [, name, version, chainId, verifyingContract] = await client.readContract({
+        address: governor,
+        abi: CTMDAOGovernorABI,
+        functionName: "eip712Domain"
+    })
+    return { name, version, chainId, verifyingContract }
+}
+
+export function ballotTypedData(domain: TypedDataDomain, ballot: Ballot | ExtendedBallot): BallotTypedData {
+    if ("reason" in ballot) {
+        return { domain, types: EXTENDED_BALLOT_TYPES, primaryType: "ExtendedBallot", message: { ...ballot } }
+    }
+    return { domain, types: BALLOT_TYPES, primaryType: "Ballot", message: { ...ballot } }
+}
+
+/// @notice Signs with the account of a wallet client, e.g. a browser wallet through custom(window.ethereum)
+export function walletSigner(wallet: WalletClient<Transport, Chain | undefined, Account>): TypedDataSigner {
+    return {
+        address: wallet.account.address,
+        signTypedData: typedData => wallet.signTypedData({ account: wallet.account, ...typedData })
+    }
+}
+
+/**
+ * @notice Builds ballots for `votes`, reading `nonces(voter)` once per voter.
+ * @dev Several votes by the same voter get consecutive nonces, so they must be relayed in the order given.
+ * Votes with a `reason` or `params` become ExtendedBallots.
+ */
+export async function prepareBallots(
+    client: PublicClient,
+    governor: Address,
+    votes: readonly { proposalId: bigint; support: number; voter: Address; reason?: string; params?: Hex }[]
+): Promise<(Ballot | ExtendedBallot)[]> {
+    const voters = [...new Set(votes.map(vote => vote.voter.toLowerCase() as Address))]
+    const nonces = new Map(await Promise.all(voters.map(async voter => [
+        voter,
+        await client.readContract({ address: governor, abi: CTMDAOGovernorABI, functionName: "nonces", args: [voter] })
+    ] as const)))
+
+    return votes.map(({ proposalId, support, voter, reason, params }) => {
+        const key = voter.toLowerCase() as Address
+        const nonce = nonces.get(key)!
+        nonces.set(key, nonce + 1n)
+
+        const ballot = { proposalId, support, voter, nonce }
+        return reason === undefined && params === undefined ? ballot : { ...ballot, reason: reason ?? "", params: params ?? "0x" }
+    })
+}
+
+/// @notice Builds an ExtendedBallot for a Delta proposal, with params from prepareDeltaVote
+export async function prepareDeltaBallot(
+    client: PublicClient,
+    governor: Address,
+    proposalId: bigint,
+    voter: Address,
+    allocation: VoteAllocation,
+    reason = ""
+): Promise<ExtendedBallot> {
+    const [vote, nonce] = await Promise.all([
+        prepareDeltaVote(client, governor, proposalId, voter, allocation, reason),
+        client.readContract({ address: governor, abi: CTMDAOGovernorABI, functionName: "nonces", args: [voter] })
+    ])
+    // `support` is not used for Delta proposals
+    return { proposalId, support: VoteSupport.For, voter, nonce, reason, params: vote.params }
+}
+
+export async function signVote(signer: TypedDataSigner, domain: TypedDataDomain, ballot: Ballot | ExtendedBallot): Promise<SignedVote> {
+    if (!isAddressEqual(signer.address, ballot.voter)) {
+        throw new Error(`signVote: signer ${signer.address} is not the voter ${ballot.voter}`)
+    }
+    const signature = await signer.signTypedData(ballotTypedData(domain, ballot))
+    return "reason" in ballot ? { kind: "extended", ballot, signature } : { kind: "ballot", ballot, signature }
+}
+
+/**
+ * @notice Checks that the voter signed the vote, without sending anything.
+ * @dev Only recovers ECDSA signatures. The governor also accepts ERC-1271 signatures from contract voters; pass a
+ * client to check those against the voter's `isValidSignature`. The nonce is not checked here.
+ */
+export async function verifyVote(domain: TypedDataDomain, vote: SignedVote, client?: PublicClient): Promise<boolean> {
+    const typedData = ballotTypedData(domain, vote.ballot)
+
+    if (client) {
+        return client.verifyTypedData({ ...typedData, address: vote.ballot.voter, signature: vote.signature })
+    }
+    try {
+        const signer = await recoverTypedDataAddress({ ...typedData, signature: vote.signature })
+        return isAddressEqual(signer, vote.ballot.voter)
+    } catch {
+        return false
+    }
+}
+
+/**
+ * @notice Relays signed votes from `relayer`, who pays the gas, one transaction per vote.
+ * @dev Each vote is simulated first; votes that would revert (GovernorInvalidSignature for a bad signature or a
+ * used nonce, GovernorAlreadyCastVote, GovernorUnexpectedProposalState, ...) are reported and skipped, the others
+ * are still sent. A voter's later votes wait for their previous one to be mined, since it consumes their nonce.
+ */
+export async function relayVotes(
+    client: PublicClient,
+    relayer: WalletClient<Transport, Chain | undefined, Account>,
+    governor: Address,
+    votes: readonly SignedVote[]
+): Promise<RelayResult[]> {
+    const pending = new Map<string, Hash>()
+    const results: RelayResult[] = []
+
+    for (const vote of votes) {
+        const { proposalId, support, voter } = vote.ballot
+        const contract = { address: governor, abi: CTMDAOGovernorABI, account: relayer.account } as const
+        const key = voter.toLowerCase()
+
+        const previous = pending.get(key)
+        if (previous) {
+            await client.waitForTransactionReceipt({ hash: previous })
+            pending.delete(key)
+        }
+
+        try {
+            let hash: Hash
+            if (vote.kind === "extended") {
+                const { reason, params } = vote.ballot
+                const { request } = await client.simulateContract({
+                    ...contract,
+                    functionName: "castVoteWithReasonAndParamsBySig",
+                    args: [proposalId, support, voter, reason, params, vote.signature]
+                })
+                hash = await relayer.writeContract(request)
+            } else {
+                const { request } = await client.simulateContract({
+                    ...contract,
+                    functionName: "castVoteBySig",
+                    args: [proposalId, support, voter, vote.signature]
+                })
+                hash = await relayer.writeContract(request)
+            }
+            pending.set(key, hash)
+            results.push({ vote, hash })
+        } catch (err) {
+            results.push({ vote, error: toIssue(err) })
+        }
+    }
+
+    return results
+}
+
+function toIssue(err: unknown): ProposalIssue {
+    if (err instanceof BaseError) {
+        const revert = err.walk(e => e instanceof ContractFunctionRevertedError)
+        if (revert instanceof ContractFunctionRevertedError && revert.data?.errorName) {
+            return { errorName: revert.data.errorName, message: describeError(err) }
+        }
+        return { errorName: err.name, message: err.shortMessage }
+    }
+    return { errorName: "Error", message: String(err) }
+}
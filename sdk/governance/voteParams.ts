@@ -0,0 +1,166 @@
+import { Address, concat, Hex, numberToHex, PublicClient, size, sliceHex } from "viem"
+
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { ProposalIssue } from "./proposalDecoder"
+
+/// @notice `proposalConfiguration(proposalId)`. nOptions is 0 for ordinary (Bravo) proposals.
+export interface ProposalConfig {
+    nOptions: bigint
+    nWinners: bigint
+}
+
+/**
+ * @notice How a voter splits their votes between the options of a Delta proposal, one entry per option.
+ * `percentages` are numbers with up to 4 decimals that must sum to 100; `weights` are relative, as _countVote reads
+ * them, and need not sum to anything in particular.
+ * Options without votes must be given as 0.
+ */
+export type VoteAllocation = { percentages: readonly number[] } | { weights: readonly bigint[] }
+
+export interface DeltaVote {
+    /// @notice The weights that are encoded, scaled so that they sum to the voter's votes where possible
+    weights: bigint[]
+    /// @notice The `params` argument of castVoteWithParams and castVoteWithReasonAndParams
+    params: Hex
+    /// @notice Votes each option receives, computed as _countVote does: votes * weight_i / sum(weights)
+    applied: bigint[]
+}
+
+export class InvalidVoteParamsError extends Error {
+    constructor(public readonly issues: ProposalIssue[]) {
+        super(issues.map(issue => `${issue.errorName}: ${issue.message}`).join("; "))
+        this.name = "InvalidVoteParamsError"
+    }
+}
+
+const PERCENT_SCALE = 10_000
+
+/// @notice Encodes weights as consecutive 32 byte words, one per option
+export function encodeVoteParams(weights: readonly bigint[]): Hex {
+    return concat(weights.map(weight => numberToHex(weight, { size: 32 })))
+}
+
+/// @notice Reads the weights out of `params` as _countVote does, ignoring a trailing partial word
+export function decodeVoteParams(params: Hex): bigint[] {
+    return Array.from({ length: Math.floor(size(params) / 32) }, (_, i) => BigInt(sliceHex(params, i * 32, (i + 1) * 32)))
+}
+
+/// @notice The checks _countVote makes on `params` for a Delta proposal
+export function validateVoteParams(params: Hex, config: ProposalConfig): ProposalIssue[] {
+    if (config.nOptions === 0n) {
+        return [{ errorName: "GovernorDeltaInvalidVoteParams", message: "not a Delta proposal, params are ignored and `support` is counted instead" }]
+    }
+
+    const weights = decodeVoteParams(params)
+
+    if (BigInt(weights.length) !== config.nOptions) {
+        return [{ errorName: "GovernorDeltaInvalidVoteParams", message: `params hold ${weights.length} weights, the proposal has ${config.nOptions} options` }]
+    }
+    if (weights.every(weight => weight === 0n)) {
+        return [{ errorName: "GovernorDeltaInvalidVoteParams", message: "at least one weight must be nonzero" }]
+    }
+
+    return []
+}
+
+/// @notice Votes each option receives from `weights`, exactly as _countVote computes them
+export function appliedVotes(weights: readonly bigint[], votes: bigint): bigint[] {
+    const sum = weights.reduce((a, b) => a + b, 0n)
+    return weights.map(weight => (sum === 0n ? 0n : (votes * weight) / sum))
+}
+
+/**
+ * @notice Turns an allocation into vote params for a Delta proposal and checks them against its configuration.
+ * @param votes The voter's `getVotes(voter, proposalSnapshot(proposalId))`.
+ * @dev Weights are rescaled to sum to `votes`, distributing rounding remainders to the largest fractions, so that
+ * _countVote's integer division loses nothing. Throws InvalidVoteParamsError if the governor would reject the vote,
+ * or if `percentages` do not sum to 100.
+ */
+export function encodeDeltaVote(allocation: VoteAllocation, votes: bigint, config: ProposalConfig): DeltaVote {
+    const raw = "weights" in allocation
+        ? [...allocation.weights]
+        : allocation.percentages.map(percentage => {
+            if (!Number.isFinite(percentage) || percentage < 0) {
+                throw new InvalidVoteParamsError([{ errorName: "GovernorDeltaInvalidVoteParams", message: `invalid percentage ${percentage}` }])
+            }
+            return BigInt(Math.round(percentage * PERCENT_SCALE))
+        })
+
+    if (raw.some(weight => weight < 0n)) {
+        throw new InvalidVoteParamsError([{ errorName: "GovernorDeltaInvalidVoteParams", message: "weights must not be negative" }])
+    }
+    if ("percentages" in allocation) {
+        const total = raw.reduce((a, b) => a + b, 0n)
+        if (total !== BigInt(100 * PERCENT_SCALE)) {
+            throw new InvalidVoteParamsError([
+                { errorName: "GovernorDeltaInvalidVoteParams", message: `percentages sum to ${Number(total) / PERCENT_SCALE}%, they must sum to 100%` }
+            ])
+        }
+    }
+
+    const weights = votes > 0n ? rescale(raw, votes) : raw
+    const params = encodeVoteParams(weights)
+
+    const issues = validateVoteParams(params, config)
+    if (issues.length !== 0) {
+        throw new InvalidVoteParamsError(issues)
+    }
+
+    return { weights, params, applied: appliedVotes(weights, votes) }
+}
+
+/**
+ * @notice Reads the proposal configuration, snapshot and the voter's votes, and returns the vote together with the
+ * arguments for castVoteWithReasonAndParams.
+ */
+export async function prepareDeltaVote(
+    client: PublicClient,
+    governor: Address,
+    proposalId: bigint,
+    voter: Address,
+    allocation: VoteAllocation,
+    reason = ""
+) {
+    const contract = { address: governor, abi: CTMDAOGovernorABI } as const
+
+    const [config, snapshot] = await Promise.all([
+        client.readContract({ ...contract, functionName: "proposalConfiguration", args: [proposalId] }),
+        client.readContract({ ...contract, functionName: "proposalSnapshot", args: [proposalId] })
+    ])
+    const votes = await client.readContract({ ...contract, functionName: "getVotes", args: [voter, snapshot] })
+
+    const vote = encodeDeltaVote(allocation, votes, config)
+
+    return {
+        ...vote,
+        votes,
+        request: {
+            ...contract,
+            functionName: "castVoteWithReasonAndParams" as const,
+            // `support` is not used for Delta proposals
+            args: [proposalId, 1, reason, vote.params] as const
+        }
+    }
+}
+
+// largest remainder rounding of `weights` to integers summing to `total`
+function rescale(weights: readonly bigint[], total: bigint): bigint[] {
+    const sum = weights.reduce((a, b) => a + b, 0n)
+    if (sum === 0n) return [...weights]
+
+    const scaled = weights.map(weight => (weight * total) / sum)
+    let remainder = total - scaled.reduce((a, b) => a + b, 0n)
+
+    const byFraction = weights
+        .map((weight, i) => ({ i, fraction: (weight * total) % sum }))
+        .filter(({ i }) => weights[i] !== 0n)
+        .sort((a, b) => (b.fraction > a.fraction ? 1 : b.fraction < a.fraction ? -1 : a.i - b.i))
+
+    for (const { i } of byFraction) {
+        if (remainder === 0n) break
+        scaled[i] += 1n
+        remainder -= 1n
+    }
+
+    return scaled
+}
@@ -0,0 +1,16 @@
+export * from "./deployments"
+export * from "./errors"
+export * from "./token/VotingEscrowClient"
+export * from "./token/votingPower"
+export * from "./token/lockPlanner"
+export * from "./token/delegateBySig"
+export * from "./governance/deltaProposal"
+export * from "./governance/proposalDecoder"
+export * from "./governance/voteParams"
+export * from "./governance/voteBySig"
+export * from "./governance/proposalTracker"
+export * from "./governance/quorumForecast"
+export * from "./governance/emissionRateProposal"
+export * from "./node/rewardsSimulator"
+export * from "./node/rewardsProjection"
+export * from "./node/claimOptimiser"
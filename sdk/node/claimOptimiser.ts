@@ -0,0 +1,265 @@
+import { Address, PublicClient } from "viem"
+
+import { RewardsABI } from "../../abi/Rewards"
+import { Deployment } from "../deployments"
+import { LockedBalance } from "../token/VotingEscrowClient"
+import { userPoint } from "../token/votingPower"
+import { fetchRewardsSimulationInput, midnightOf, ONE_DAY, RewardsSimulationInput, simulateRewards } from "./rewardsSimulator"
+
+/// @notice VotingEscrow functions guarded by checkNoRewards, which revert with VotingEscrow_UnclaimedRewards while
+/// `unclaimedRewards(tokenId)` is nonzero. Transfers are not guarded.
+export const REWARD_BLOCKED_ACTIONS = ["withdraw", "liquidate", "merge", "split", "increase_amount", "increase_unlock_time"] as const
+
+export type RewardBlockedAction = (typeof REWARD_BLOCKED_ACTIONS)[number]
+
+export type RewardAction = "claim" | "compound"
+
+/// @notice Gas used by a call, as a fixed cost plus a cost per unclaimed day walked by _calculateRewardsOf
+export interface GasModel {
+    base: bigint
+    perDay: bigint
+}
+
+/// @notice Rough defaults for a call through the VotingEscrow proxy. Use estimateRewardsGas to calibrate them.
+export const DEFAULT_GAS: Record<RewardAction, GasModel> = {
+    claim: { base: 90_000n, perDay: 12_000n },
+    // deposit_for checkpoints the lock and the global supply on top of the claim
+    compound: { base: 260_000n, perDay: 12_000n }
+}
+
+export interface TokenRewardsState extends RewardsSimulationInput {
+    tokenId: bigint
+    locked: LockedBalance
+}
+
+export interface OptimiserParams {
+    /// @notice The midnight the comparison runs up to
+    horizon: bigint
+    /// @notice Candidate days between actions, 1, 7 and 30 by default
+    intervals?: bigint[]
+    gas?: Partial<Record<RewardAction, GasModel>>
+    /// @notice CTM wei paid per unit of gas, i.e. the gas price converted to CTM, see gasPriceInCtm. Without it every
+    /// action is free and the shortest interval always wins.
+    ctmPerGas: bigint
+}
+
+export interface PlannedAction {
+    tokenId: bigint
+    action: RewardAction
+    /// @notice The midnight after which the call is made
+    at: bigint
+    expectedReward: bigint
+    gas: bigint
+}
+
+export interface StrategyOutcome {
+    /// @notice "mixed" compounds for the first `compoundActions` actions, then claims
+    strategy: "claim" | "compound" | "mixed"
+    intervalDays: bigint
+    compoundActions: number
+    claimActions: number
+    /// @notice Rewards claimed to the wallet
+    claimed: bigint
+    /// @notice Rewards added to the lock, withdrawable at `locked.end`
+    compounded: bigint
+    /// @notice Rewards earned by the horizon but not yet claimed
+    unclaimedAtHorizon: bigint
+    gas: bigint
+    /// @notice Gas converted to CTM with `ctmPerGas`
+    gasCost: bigint
+    /// @notice claimed + compounded + unclaimedAtHorizon - gasCost
+    net: bigint
+    finalLocked: LockedBalance
+    actions: PlannedAction[]
+}
+
+export interface TokenRecommendation {
+    tokenId: bigint
+    /// @notice What `unclaimedRewards(tokenId)` returns now
+    unclaimedNow: bigint
+    /// @notice Actions that revert until the rewards are claimed or compounded, empty if there are none
+    blockedActions: RewardBlockedAction[]
+    best: StrategyOutcome
+    /// @notice The best outcome of each strategy, for comparison
+    alternatives: StrategyOutcome[]
+}
+
+export interface ActionPlan {
+    tokens: TokenRecommendation[]
+    /// @notice Every recommended call, in time order
+    actions: PlannedAction[]
+    net: bigint
+}
+
+interface StrategyContext {
+    horizon: bigint
+    gas: Record<RewardAction, GasModel>
+    ctmPerGas: bigint
+}
+
+/**
+ * @notice Converts a gas price to CTM wei per unit of gas, for OptimiserParams.ctmPerGas.
+ * @param gasPrice Wei of the native token per unit of gas, e.g. from `client.getGasPrice()`.
+ * @param ctmPerNative CTM wei bought by one whole native token (1e18 wei), i.e. the price of the native token in CTM
+ * scaled by 1e18.
+ */
+export function gasPriceInCtm(gasPrice: bigint, ctmPerNative: bigint): bigint {
+    return (gasPrice * ctmPerNative) / 10n ** 18n
+}
+
+/// @notice Days _calculateRewardsOf walks for a claim at `at`
+function unclaimedDays(input: RewardsSimulationInput, at: bigint): bigint {
+    const from = input.lastClaimed === 0n ? midnightOf(input.createdAt) : input.lastClaimed
+    return (at - from) / ONE_DAY
+}
+
+/**
+ * @notice Runs one strategy: an action at the token's latest midnight and then every `intervalDays`, compounding for
+ * the first `compoundActions` of them and claiming afterwards.
+ * @dev An action with nothing to claim is skipped, since both calls revert with Rewards_NoUnclaimedRewards, and so is
+ * compounding into an expired lock, which deposit_for rejects; the rewards are claimed instead.
+ */
+function runStrategy(
+    token: TokenRewardsState,
+    intervalDays: bigint,
+    compoundActions: number,
+    { horizon, gas, ctmPerGas }: StrategyContext
+): StrategyOutcome {
+    const outcome: StrategyOutcome = {
+        strategy: "claim",
+        intervalDays,
+        compoundActions: 0,
+        claimActions: 0,
+        claimed: 0n,
+        compounded: 0n,
+        unclaimedAtHorizon: 0n,
+        gas: 0n,
+        gasCost: 0n,
+        net: 0n,
+        finalLocked: token.locked,
+        actions: []
+    }
+
+    let input = token
+    let locked = token.locked
+    let actions = 0
+
+    for (let at = token.latestMidnight; at <= horizon; at += intervalDays * ONE_DAY) {
+        const reward = simulateRewards({ ...input, latestMidnight: at }).total
+        if (reward === 0n) continue
+
+        const action: RewardAction = actions < compoundActions && locked.end > at ? "compound" : "claim"
+        const gasUsed = gas[action].base + gas[action].perDay * unclaimedDays(input, at)
+        actions++
+
+        if (action === "compound") {
+            locked = { amount: locked.amount + reward, end: locked.end }
+            input = { ...input, point: userPoint(locked, at), lastClaimed: at }
+            outcome.compounded += reward
+            outcome.compoundActions++
+        } else {
+            input = { ...input, lastClaimed: at }
+            outcome.claimed += reward
+            outcome.claimActions++
+        }
+        outcome.gas += gasUsed
+        outcome.actions.push({ tokenId: token.tokenId, action, at, expectedReward: reward, gas: gasUsed })
+    }
+
+    outcome.unclaimedAtHorizon = horizon >= input.latestMidnight ? simulateRewards({ ...input, latestMidnight: horizon }).total : 0n
+    outcome.gasCost = outcome.gas * ctmPerGas
+    outcome.net = outcome.claimed + outcome.compounded + outcome.unclaimedAtHorizon - outcome.gasCost
+    outcome.finalLocked = locked
+    outcome.strategy = outcome.compoundActions === 0 ? "claim" : outcome.claimActions === 0 ? "compound" : "mixed"
+    return outcome
+}
+
+/**
+ * @notice Compares claiming, compounding and mixed strategies for one token up to the horizon, for each candidate
+ * interval, with the current reward parameters held constant.
+ * @dev Strategies are ranked by net rewards. Ties go to the one that claims more, since claimed CTM is liquid while
+ * compounded CTM stays locked until the lock expires.
+ */
+export function optimiseToken(token: TokenRewardsState, params: OptimiserParams): TokenRecommendation {
+    const { horizon, intervals = [1n, 7n, 30n], ctmPerGas } = params
+    const invalid = intervals.find(intervalDays => intervalDays <= 0n)
+    if (invalid !== undefined) {
+        throw new Error(`optimiseToken: intervals must be positive, got ${invalid}`)
+    }
+    if (ctmPerGas < 0n) {
+        throw new Error(`optimiseToken: ctmPerGas must not be negative, got ${ctmPerGas}`)
+    }
+    const gas = { ...DEFAULT_GAS, ...params.gas }
+    const unclaimedNow = simulateRewards(token).total
+
+    const outcomes: StrategyOutcome[] = []
+    for (const intervalDays of intervals) {
+        const maxActions = Number((horizon - token.latestMidnight) / (intervalDays * ONE_DAY)) + 1
+        for (let compoundActions = 0; compoundActions <= maxActions; compoundActions++) {
+            outcomes.push(runStrategy(token, intervalDays, compoundActions, { horizon, gas, ctmPerGas }))
+        }
+    }
+
+    const better = (a: StrategyOutcome, b: StrategyOutcome) => a.net > b.net || (a.net === b.net && a.claimed > b.claimed)
+    const best = outcomes.reduce((a, b) => (better(b, a) ? b : a))
+    const alternatives = (["claim", "compound", "mixed"] as const).flatMap(strategy => {
+        const candidates = outcomes.filter(outcome => outcome.strategy === strategy)
+        return candidates.length > 0 ? [candidates.reduce((a, b) => (better(b, a) ? b : a))] : []
+    })
+
+    return {
+        tokenId: token.tokenId,
+        unclaimedNow,
+        blockedActions: unclaimedNow > 0n ? [...REWARD_BLOCKED_ACTIONS] : [],
+        best,
+        alternatives
+    }
+}
+
+/// @notice Recommends a strategy for each of a holder's tokens and merges their actions into one schedule
+export function optimiseRewards(tokens: TokenRewardsState[], params: OptimiserParams): ActionPlan {
+    const recommendations = tokens.map(token => optimiseToken(token, params))
+    return {
+        tokens: recommendations,
+        actions: recommendations
+            .flatMap(recommendation => recommendation.best.actions)
+            .sort((a, b) => Number(a.at - b.at) || Number(a.tokenId - b.tokenId)),
+        net: recommendations.reduce((total, recommendation) => total + recommendation.best.net, 0n)
+    }
+}
+
+/// @notice Reads the reward state of each token, see fetchRewardsSimulationInput
+export async function fetchTokenRewardsStates(client: PublicClient, deployment: Deployment, tokenIds: bigint[]): Promise<TokenRewardsState[]> {
+    return Promise.all(tokenIds.map(async tokenId => ({ ...(await fetchRewardsSimulationInput(client, deployment, tokenId)), tokenId })))
+}
+
+/**
+ * @notice Calibrates the gas models against the node: estimates `claimRewards` and `compoundLockRewards` for a
+ * token with unclaimed rewards, and attributes what the default per-day cost does not explain to the base cost.
+ * @dev Both calls must come from the token's owner. Falls back to DEFAULT_GAS for calls that would revert.
+ */
+export async function estimateRewardsGas(
+    client: PublicClient,
+    deployment: Deployment,
+    token: TokenRewardsState,
+    owner: Address
+): Promise<Record<RewardAction, GasModel>> {
+    const rewards = { address: deployment.rewards.address, abi: RewardsABI, account: owner } as const
+    const days = unclaimedDays(token, token.latestMidnight)
+
+    const calibrate = async (action: RewardAction, estimate: () => Promise<bigint>): Promise<GasModel> => {
+        try {
+            const gas = await estimate()
+            const { perDay } = DEFAULT_GAS[action]
+            return { base: gas > perDay * days ? gas - perDay * days : gas, perDay }
+        } catch {
+            return DEFAULT_GAS[action]
+        }
+    }
+
+    const [claim, compound] = await Promise.all([
+        calibrate("claim", () => client.estimateContractGas({ ...rewards, functionName: "claimRewards", args: [token.tokenId, owner] })),
+        calibrate("compound", () => client.estimateContractGas({ ...rewards, functionName: "compoundLockRewards", args: [token.tokenId] }))
+    ])
+    return { claim, compound }
+}
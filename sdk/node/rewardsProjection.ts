@@ -0,0 +1,161 @@
+import { PublicClient } from "viem"
+
+import { RewardsABI } from "../../abi/Rewards"
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import { Deployment } from "../deployments"
+import { LockPlan, planCreateLock } from "../token/lockPlanner"
+import { userPoint } from "../token/votingPower"
+import { Checkpoint, DailyReward, midnightOf, ONE_DAY, simulateRewards } from "./rewardsSimulator"
+
+const DAYS_PER_YEAR = 365n
+
+/// @notice The highest quality score NodeProperties accepts
+const MAX_NODE_QUALITY = 10n
+
+/// @notice The reward parameters a projection holds constant, as returned by their current-value getters
+export interface RewardRates {
+    baseEmissionRate: bigint
+    nodeEmissionRate: bigint
+    nodeRewardThreshold: bigint
+}
+
+export interface RewardsProjectionParams {
+    value: bigint
+    lockDuration: bigint
+    /// @notice Chain time the lock is created at
+    now: bigint
+    rates: RewardRates
+    /// @notice The quality score of the node attached to the lock, 0-10 as NodeProperties enforces. Omit for a lock
+    /// without a node.
+    nodeQuality?: bigint
+    /// @notice Days between `compoundLockRewards` calls in the compounding scenario, 7 by default
+    compoundEveryDays?: bigint
+    /// @notice `minimumLock()`. Defaults to 0, skipping the check.
+    minimumLock?: bigint
+}
+
+export interface ProjectedDay extends DailyReward {
+    /// @notice Rewards earned up to and including this day
+    cumulative: bigint
+    /// @notice The lock amount on this day, which grows with each compounding
+    lockedAmount: bigint
+}
+
+export interface RewardsScenario {
+    compounding: boolean
+    days: ProjectedDay[]
+    total: bigint
+    /// @notice The amount withdrawable when the lock expires
+    finalLocked: bigint
+    /// @notice Rewards over the lock's lifetime relative to `value`, scaled to a year, e.g. 0.05 for 5%
+    annualisedRate: number
+}
+
+export interface RewardsProjection {
+    lock: LockPlan
+    /// @notice Rewards are claimed to the wallet, the lock amount stays the same
+    simple: RewardsScenario
+    /// @notice Rewards are added to the lock with `compoundLockRewards` every `compoundEveryDays` days
+    compounded: RewardsScenario
+}
+
+const constant = (value: bigint): Checkpoint[] => [{ key: 0n, value }]
+
+function annualisedRate(total: bigint, value: bigint, days: bigint): number {
+    if (value === 0n || days === 0n) return 0
+    // six decimal places are kept through the bigint division
+    return Number((total * DAYS_PER_YEAR * 1_000_000n) / (value * days)) / 1_000_000
+}
+
+function scenario(plan: LockPlan, params: RewardsProjectionParams, compoundEvery?: bigint): RewardsScenario {
+    const { value, now, rates, nodeQuality = 0n } = params
+    const checkpoints = {
+        baseEmissionRates: constant(rates.baseEmissionRate),
+        nodeEmissionRates: constant(rates.nodeEmissionRate),
+        nodeRewardThresholds: constant(rates.nodeRewardThreshold),
+        nodeQualities: constant(nodeQuality)
+    }
+    const end = plan.unlockTime
+    const result: RewardsScenario = { compounding: compoundEvery !== undefined, days: [], total: 0n, finalLocked: value, annualisedRate: 0 }
+
+    let point = userPoint(plan.locked, now)
+    let lastClaimed = 0n
+    let from = midnightOf(now)
+
+    // rewards stop at the first midnight without voting power, which is `end` itself since unlock times are on
+    // week boundaries, so the walk only needs to reach it
+    while (from < end) {
+        const to = compoundEvery !== undefined && from + compoundEvery * ONE_DAY < end ? from + compoundEvery * ONE_DAY : end
+        const segment = simulateRewards({ ...checkpoints, point, createdAt: now, lastClaimed, latestMidnight: to })
+
+        for (const day of segment.days) {
+            result.total += day.reward
+            result.days.push({ ...day, cumulative: result.total, lockedAmount: result.finalLocked })
+        }
+
+        // compoundLockRewards reverts with nothing to claim, and deposit_for once the lock expired. Either way the
+        // days walked so far earned what they could, so the next segment starts after them.
+        if (compoundEvery !== undefined && segment.total > 0n && to < end) {
+            result.finalLocked += segment.total
+            point = userPoint({ amount: result.finalLocked, end }, to)
+        }
+        lastClaimed = to
+        if (segment.stopped) break
+        from = to
+    }
+
+    result.annualisedRate = annualisedRate(result.total, value, (end - midnightOf(now)) / ONE_DAY)
+    return result
+}
+
+/**
+ * @notice Projects the rewards of a lock of `value` CTM created at `now` for `lockDuration`, with the current rates
+ * held constant, as `unclaimedRewards` would count them day by day.
+ * @dev Without compounding, the voting power decays linearly to zero at the unlock time, and the node share stops
+ * once it falls below the node reward threshold. Compounding raises the lock amount, and with it the voting power
+ * for the remaining days. Throws with the lock's revert if create_lock would fail.
+ */
+export function projectRewards(params: RewardsProjectionParams): RewardsProjection {
+    const { value, lockDuration, now, minimumLock = 0n, compoundEveryDays = 7n, nodeQuality = 0n } = params
+    if (compoundEveryDays <= 0n) {
+        throw new Error(`projectRewards: compoundEveryDays must be positive, got ${compoundEveryDays}`)
+    }
+    if (nodeQuality < 0n || nodeQuality > MAX_NODE_QUALITY) {
+        throw new Error(`projectRewards: nodeQuality must be between 0 and ${MAX_NODE_QUALITY}, got ${nodeQuality}`)
+    }
+
+    const lock = planCreateLock({ value, lockDuration, now, minimumLock })
+    if (lock.revert) {
+        throw new Error(`projectRewards: create_lock would revert with ${lock.revert.errorName}(${lock.revert.args.join(", ")})`)
+    }
+
+    return {
+        lock,
+        simple: scenario(lock, params),
+        compounded: scenario(lock, params, compoundEveryDays)
+    }
+}
+
+/// @notice Reads the current `baseEmissionRate`, `nodeEmissionRate` and `nodeRewardThreshold`
+export async function fetchRewardRates(client: PublicClient, deployment: Deployment): Promise<RewardRates> {
+    const rewards = { address: deployment.rewards.address, abi: RewardsABI } as const
+    const [baseEmissionRate, nodeEmissionRate, nodeRewardThreshold] = await Promise.all([
+        client.readContract({ ...rewards, functionName: "baseEmissionRate" }),
+        client.readContract({ ...rewards, functionName: "nodeEmissionRate" }),
+        client.readContract({ ...rewards, functionName: "nodeRewardThreshold" })
+    ])
+    return { baseEmissionRate, nodeEmissionRate, nodeRewardThreshold }
+}
+
+/// @notice Projects the rewards of a lock created now, with the rates currently set on chain
+export async function fetchRewardsProjection(
+    client: PublicClient,
+    deployment: Deployment,
+    params: Omit<RewardsProjectionParams, "now" | "rates">
+): Promise<RewardsProjection> {
+    const [rates, now] = await Promise.all([
+        fetchRewardRates(client, deployment),
+        client.readContract({ address: deployment.votingEscrow.address, abi: VotingEscrowABI, functionName: "clock" })
+    ])
+    return projectRewards({ ...params, now: BigInt(now), rates })
+}
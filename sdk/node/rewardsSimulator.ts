@@ -0,0 +1,289 @@
+import { getAbiItem, Log, PublicClient } from "viem"
+
+import { NodePropertiesABI } from "../../abi/NodeProperties"
+import { RewardsABI } from "../../abi/Rewards"
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import { Deployment } from "../deployments"
+import { LockedBalance } from "../token/VotingEscrowClient"
+import { balanceOfNFTAt, Point, userPoint } from "../token/votingPower"
+
+// Mirrors Rewards._calculateRewardsOf and _calculateRewards, which back `unclaimedRewards(tokenId)` and
+// `claimRewards`. All values are bigints so that results match the contract to the wei.
+
+export const ONE_DAY = 86_400n
+export const MULTIPLIER = 10n ** 18n
+
+// the walk stops four years after the last claim
+const MAX_PERIOD = 4n * 365n * ONE_DAY
+
+/// @notice The Rewards events that checkpoint the reward parameters
+export const REWARD_CHECKPOINT_EVENTS = [
+    getAbiItem({ abi: RewardsABI, name: "BaseEmissionRateUpdated" }),
+    getAbiItem({ abi: RewardsABI, name: "NodeEmissionRateUpdated" }),
+    getAbiItem({ abi: RewardsABI, name: "NodeRewardThresholdUpdated" })
+] as const
+
+/// @notice The NodeProperties event that checkpoints a token's node quality
+export const NODE_QUALITY_EVENT = getAbiItem({ abi: NodePropertiesABI, name: "NodeQualityUpdated" })
+
+/// @notice An entry of a Checkpoints.Trace208, keyed by the timestamp it was pushed at
+export interface Checkpoint {
+    key: bigint
+    value: bigint
+}
+
+export interface RewardCheckpoints {
+    baseEmissionRates: Checkpoint[]
+    nodeEmissionRates: Checkpoint[]
+    nodeRewardThresholds: Checkpoint[]
+    /// @notice The token's `_nodeQualitiesOf` in NodeProperties
+    nodeQualities: Checkpoint[]
+}
+
+export interface RewardsSimulationInput extends RewardCheckpoints {
+    /// @notice The token's last user point, see userPoint. Undefined for tokens with no checkpoint.
+    point: Point | undefined
+    /// @notice `user_point_history__ts(tokenId, 1)`, 0 for tokens that were never created
+    createdAt: bigint
+    /// @notice `_lastClaimOf[tokenId]`, the midnight of the last claim, 0 if never claimed
+    lastClaimed: bigint
+    /// @notice The midnight rewards are counted up to, the latest one for `unclaimedRewards`
+    latestMidnight: bigint
+}
+
+export interface DailyReward {
+    midnight: bigint
+    /// @notice `balanceOfNFTAt(tokenId, midnight)`
+    votingPower: bigint
+    baseEmissionRate: bigint
+    nodeEmissionRate: bigint
+    nodeRewardThreshold: bigint
+    /// @notice Whether the voting power reached the threshold. Below it, the node quality is not read and counts as 0.
+    thresholdMet: boolean
+    /// @notice The node quality the reward was computed with, 0-10
+    nodeQuality: bigint
+    /// @notice `votingPower * baseEmissionRate / MULTIPLIER`
+    baseReward: bigint
+    /// @notice The rest of the day's reward, the share earned by running a node
+    nodeReward: bigint
+    /// @notice `votingPower * (baseEmissionRate + nodeQuality * nodeEmissionRate / 10) / MULTIPLIER`
+    reward: bigint
+}
+
+export const RewardsStop = {
+    /// @notice The voting power dropped to zero: the lock expired or was withdrawn
+    Expired: "expired",
+    /// @notice Four years passed since the last claim
+    MaxPeriod: "maxPeriod"
+} as const
+
+export type RewardsStop = (typeof RewardsStop)[keyof typeof RewardsStop]
+
+export interface RewardsSimulation {
+    /// @notice The midnight the walk starts after: the last claim, or the midnight before the token was created
+    fromMidnight: bigint
+    toMidnight: bigint
+    days: DailyReward[]
+    total: bigint
+    /// @notice Why the walk ended before `toMidnight`, and at which midnight
+    stopped?: { reason: RewardsStop; midnight: bigint }
+}
+
+/// @notice Thrown where `unclaimedRewards` would revert
+export class RewardsSimulationError extends Error {
+    constructor(message: string) {
+        super(`Rewards._calculateRewardsOf would revert: ${message}`)
+        this.name = "RewardsSimulationError"
+    }
+}
+
+/// @notice Reproduces `Checkpoints.Trace208.upperLookupRecent`: the value of the last checkpoint at or before `key`
+export function upperLookup(checkpoints: readonly Checkpoint[], key: bigint): bigint {
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+        if (checkpoints[i].key <= key) return checkpoints[i].value
+    }
+    return 0n
+}
+
+/// @notice Reproduces `_calculateRewards`
+export function calculateRewards(votingPower: bigint, baseEmissionRate: bigint, nodeEmissionRate: bigint, nodeQuality: bigint): bigint {
+    return (votingPower * (baseEmissionRate + (nodeQuality * nodeEmissionRate) / 10n)) / MULTIPLIER
+}
+
+export function midnightOf(timestamp: bigint): bigint {
+    return timestamp - (timestamp % ONE_DAY)
+}
+
+/**
+ * @notice Reproduces `_calculateRewardsOf(tokenId, latestMidnight)` day by day.
+ * @dev The sum of the days' rewards is what `unclaimedRewards` returns at `latestMidnight`. Each day is rounded down
+ * on its own, as in the contract, and split into a base and a node share after rounding.
+ */
+export function simulateRewards(input: RewardsSimulationInput): RewardsSimulation {
+    const { point, createdAt, latestMidnight } = input
+    let lastClaimed = input.lastClaimed
+
+    if (lastClaimed === 0n) {
+        if (createdAt === 0n) {
+            return { fromMidnight: 0n, toMidnight: latestMidnight, days: [], total: 0n }
+        }
+        lastClaimed = midnightOf(createdAt)
+    }
+    if (latestMidnight < lastClaimed) {
+        throw new RewardsSimulationError(`latest midnight ${latestMidnight} is before the last claim ${lastClaimed}`)
+    }
+    if ((latestMidnight - lastClaimed) % ONE_DAY !== 0n) {
+        throw new RewardsSimulationError(`latest midnight ${latestMidnight} is not a whole number of days after ${lastClaimed}`)
+    }
+
+    const simulation: RewardsSimulation = { fromMidnight: lastClaimed, toMidnight: latestMidnight, days: [], total: 0n }
+    let votingPower = 0n
+    let prevDayVotingPower = 0n
+
+    for (let midnight = lastClaimed + ONE_DAY; midnight <= latestMidnight; midnight += ONE_DAY) {
+        prevDayVotingPower = votingPower
+        votingPower = balanceOfNFTAt(point, midnight)
+
+        if (midnight > lastClaimed + MAX_PERIOD) {
+            simulation.stopped = { reason: RewardsStop.MaxPeriod, midnight }
+            break
+        }
+        if (votingPower === 0n && prevDayVotingPower !== 0n) {
+            simulation.stopped = { reason: RewardsStop.Expired, midnight }
+            break
+        }
+
+        const nodeRewardThreshold = upperLookup(input.nodeRewardThresholds, midnight)
+        const thresholdMet = votingPower >= nodeRewardThreshold
+        const nodeQuality = thresholdMet ? upperLookup(input.nodeQualities, midnight) : 0n
+        const baseEmissionRate = upperLookup(input.baseEmissionRates, midnight)
+        const nodeEmissionRate = upperLookup(input.nodeEmissionRates, midnight)
+
+        const reward = calculateRewards(votingPower, baseEmissionRate, nodeEmissionRate, nodeQuality)
+        const baseReward = calculateRewards(votingPower, baseEmissionRate, 0n, 0n)
+
+        simulation.days.push({
+            midnight,
+            votingPower,
+            baseEmissionRate,
+            nodeEmissionRate,
+            nodeRewardThreshold,
+            thresholdMet,
+            nodeQuality,
+            baseReward,
+            nodeReward: reward - baseReward,
+            reward
+        })
+        simulation.total += reward
+    }
+
+    return simulation
+}
+
+/**
+ * @notice Builds the reward checkpoints from Rewards and NodeProperties logs, in chain order.
+ * @param timestamps Block timestamp of each log's block, the key its checkpoint was pushed with.
+ */
+export function rewardCheckpointsFromLogs(
+    logs: readonly Log<bigint, number, false, undefined, true, [...typeof REWARD_CHECKPOINT_EVENTS, typeof NODE_QUALITY_EVENT]>[],
+    timestamps: ReadonlyMap<bigint, bigint>
+): RewardCheckpoints {
+    const checkpoints: RewardCheckpoints = { baseEmissionRates: [], nodeEmissionRates: [], nodeRewardThresholds: [], nodeQualities: [] }
+    const push = (trace: Checkpoint[], key: bigint, value: bigint) => {
+        // a second push in the same block overwrites the first, as in Checkpoints._insert
+        if (trace.length > 0 && trace[trace.length - 1].key === key) trace.pop()
+        trace.push({ key, value })
+    }
+
+    const sorted = [...logs].sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex)
+    for (const log of sorted) {
+        const key = timestamps.get(log.blockNumber)!
+        switch (log.eventName) {
+            case "BaseEmissionRateUpdated":
+                push(checkpoints.baseEmissionRates, key, log.args._newBaseEmissionRate)
+                break
+            case "NodeEmissionRateUpdated":
+                push(checkpoints.nodeEmissionRates, key, log.args._newNodeEmissionRate)
+                break
+            case "NodeRewardThresholdUpdated":
+                push(checkpoints.nodeRewardThresholds, key, log.args._newNodeRewardThreshold)
+                break
+            case "NodeQualityUpdated":
+                push(checkpoints.nodeQualities, key, log.args._newQuality)
+                break
+        }
+    }
+    return checkpoints
+}
+
+/**
+ * @notice Collects everything simulateRewards needs for `tokenId` from the chain: the token's point and the lock it
+ * derives from, its last claim from the Claim events, and the reward checkpoints from their events since the
+ * contracts were deployed.
+ * @dev `_lastClaimOf` has no getter, so a claim is found from its Claim event, at the midnight before its block.
+ */
+export async function fetchRewardsSimulationInput(
+    client: PublicClient,
+    deployment: Deployment,
+    tokenId: bigint
+): Promise<RewardsSimulationInput & { locked: LockedBalance }> {
+    const { rewards, nodeProperties, votingEscrow } = deployment
+    const ve = { address: votingEscrow.address, abi: VotingEscrowABI } as const
+
+    const [block, epoch, createdAt, [amount, end]] = await Promise.all([
+        client.getBlock(),
+        client.readContract({ ...ve, functionName: "user_point_epoch", args: [tokenId] }),
+        client.readContract({ ...ve, functionName: "user_point_history__ts", args: [tokenId, 1n] }),
+        client.readContract({ ...ve, functionName: "locked", args: [tokenId] })
+    ])
+    const lastCheckpoint = epoch === 0n ? 0n : await client.readContract({ ...ve, functionName: "user_point_history__ts", args: [tokenId, epoch] })
+
+    const fromBlock = (address: { blockNumber?: bigint }) => address.blockNumber ?? 0n
+    const [rewardLogs, qualityLogs, claimLogs] = await Promise.all([
+        client.getLogs({
+            address: rewards.address,
+            events: REWARD_CHECKPOINT_EVENTS,
+            fromBlock: fromBlock(rewards),
+            toBlock: block.number
+        }),
+        client.getLogs({
+            address: nodeProperties.address,
+            event: NODE_QUALITY_EVENT,
+            args: { _tokenId: tokenId },
+            fromBlock: fromBlock(nodeProperties),
+            toBlock: block.number
+        }),
+        client.getContractEvents({
+            address: rewards.address,
+            abi: RewardsABI,
+            eventName: "Claim",
+            args: { _tokenId: tokenId },
+            fromBlock: fromBlock(rewards),
+            toBlock: block.number
+        })
+    ])
+
+    const logs = [...rewardLogs, ...qualityLogs]
+    const lastClaim = claimLogs.at(-1)
+    const blockNumbers = new Set([...logs, ...(lastClaim ? [lastClaim] : [])].map(log => log.blockNumber))
+    const timestamps = new Map(
+        await Promise.all([...blockNumbers].map(async blockNumber => {
+            const { timestamp } = await client.getBlock({ blockNumber })
+            return [blockNumber, timestamp] as const
+        }))
+    )
+
+    return {
+        ...rewardCheckpointsFromLogs(logs as Parameters<typeof rewardCheckpointsFromLogs>[0], timestamps),
+        point: epoch === 0n ? undefined : userPoint({ amount, end }, lastCheckpoint),
+        createdAt,
+        lastClaimed: lastClaim ? midnightOf(timestamps.get(lastClaim.blockNumber)!) : 0n,
+        latestMidnight: midnightOf(block.timestamp),
+        locked: { amount, end }
+    }
+}
+
+/// @notice Simulates the rewards `unclaimedRewards(tokenId)` returns now, with the per-day breakdown
+export async function simulateUnclaimedRewards(client: PublicClient, deployment: Deployment, tokenId: bigint): Promise<RewardsSimulation> {
+    return simulateRewards(await fetchRewardsSimulationInput(client, deployment, tokenId))
+}
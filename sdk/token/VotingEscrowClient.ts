@@ -0,0 +1,179 @@
+import {
+    Account,
+    Address,
+    Chain,
+    ContractFunctionArgs,
+    ContractFunctionName,
+    ContractFunctionReturnType,
+    createPublicClient,
+    createWalletClient,
+    getContract,
+    GetContractReturnType,
+    Hash,
+    PublicClient,
+    Transport,
+    WalletClient,
+    WriteContractParameters
+} from "viem"
+
+import { VotingEscrowABI, VotingEscrowAbi } from "../../abi/VotingEscrow"
+import { getDeployment } from "../deployments"
+import { SignedDelegation } from "./delegateBySig"
+
+/// @notice IVotingEscrow.LockedBalance, decoded. `amount` is an int128 on-chain.
+export interface LockedBalance {
+    amount: bigint
+    end: bigint
+}
+
+export interface VotingEscrowClientConfig {
+    /// @notice Any viem transport: http() for a node or a local anvil fork, custom(window.ethereum) for a wallet, ...
+    transport: Transport
+    chain: Chain
+    /// @notice The VotingEscrow proxy. Defaults to the deployment registered for `chain`.
+    address?: Address
+    /// @notice Sender of transactions. A plain address is sent through `eth_sendTransaction`, e.g. an impersonated
+    /// account on anvil. Read-only clients can omit it.
+    account?: Account | Address
+}
+
+/// @notice A write that was simulated and then sent: `result` is the simulated return value
+export interface WriteResult<T> {
+    hash: Hash
+    result: T
+}
+
+export class AccountRequiredError extends Error {
+    constructor(public readonly functionName: string) {
+        super(`VotingEscrowClient: an account is required to call ${functionName}`)
+        this.name = "AccountRequiredError"
+    }
+}
+
+/**
+ * @notice Typed wrapper around the veCTM contract. Token IDs, amounts, durations and timestamps are bigints; lock
+ * durations are in seconds and rounded down to whole weeks by the contract.
+ * @dev Every write is simulated first, so reverts surface before a transaction is sent and return values (such as
+ * the new token ID of createLock) are available to the caller.
+ */
+export class VotingEscrowClient {
+    readonly address: Address
+    readonly publicClient: PublicClient<Transport, Chain>
+    readonly walletClient?: WalletClient<Transport, Chain, Account>
+    private readonly contract: GetContractReturnType<VotingEscrowAbi, PublicClient<Transport, Chain>>
+
+    constructor({ transport, chain, address, account }: VotingEscrowClientConfig) {
+        this.address = address ?? getDeployment(chain.id).votingEscrow.address
+        this.publicClient = createPublicClient({ transport, chain })
+        if (account) {
+            this.walletClient = createWalletClient({ transport, chain, account })
+        }
+        this.contract = getContract({ address: this.address, abi: VotingEscrowABI, client: this.publicClient })
+    }
+
+    // ---------------------------------------------------------------- views
+
+    async locked(tokenId: bigint): Promise<LockedBalance> {
+        const [amount, end] = await this.contract.read.locked([tokenId])
+        return { amount, end }
+    }
+
+    balanceOfNFT(tokenId: bigint): Promise<bigint> {
+        return this.contract.read.balanceOfNFT([tokenId])
+    }
+
+    balanceOfNFTAt(tokenId: bigint, timestamp: bigint): Promise<bigint> {
+        return this.contract.read.balanceOfNFTAt([tokenId, timestamp])
+    }
+
+    lockedEnd(tokenId: bigint): Promise<bigint> {
+        return this.contract.read.locked__end([tokenId])
+    }
+
+    nonVoting(tokenId: bigint): Promise<boolean> {
+        return this.contract.read.nonVoting([tokenId])
+    }
+
+    // ---------------------------------------------------------------- writes
+
+    /// @notice Locks `value` CTM for `lockDuration` seconds, returning the new token ID
+    createLock(value: bigint, lockDuration: bigint): Promise<WriteResult<bigint>> {
+        return this.write("create_lock", [value, lockDuration])
+    }
+
+    createLockFor(value: bigint, lockDuration: bigint, to: Address): Promise<WriteResult<bigint>> {
+        return this.write("create_lock_for", [value, lockDuration, to])
+    }
+
+    /// @notice Creates a lock for `to` that earns rewards but carries no voting power. Only callable by the governor.
+    createNonVotingLockFor(value: bigint, lockDuration: bigint, to: Address): Promise<WriteResult<bigint>> {
+        return this.write("create_nonvoting_lock_for", [value, lockDuration, to])
+    }
+
+    increaseAmount(tokenId: bigint, value: bigint): Promise<WriteResult<void>> {
+        return this.write("increase_amount", [tokenId, value])
+    }
+
+    /// @notice Extends the lock to `lockDuration` seconds from now
+    increaseUnlockTime(tokenId: bigint, lockDuration: bigint): Promise<WriteResult<void>> {
+        return this.write("increase_unlock_time", [tokenId, lockDuration])
+    }
+
+    /// @notice Merges token `from` into token `to`, burning `from`
+    merge(from: bigint, to: bigint): Promise<WriteResult<void>> {
+        return this.write("merge", [from, to])
+    }
+
+    /// @notice Moves `extracted` CTM from `tokenId` into a new token with the same end, returning the new token ID
+    split(tokenId: bigint, extracted: bigint): Promise<WriteResult<bigint>> {
+        return this.write("split", [tokenId, extracted])
+    }
+
+    withdraw(tokenId: bigint): Promise<WriteResult<void>> {
+        return this.write("withdraw", [tokenId])
+    }
+
+    /// @notice Withdraws an unexpired lock early, paying the liquidation penalty to the treasury
+    liquidate(tokenId: bigint): Promise<WriteResult<void>> {
+        return this.write("liquidate", [tokenId])
+    }
+
+    depositFor(tokenId: bigint, value: bigint): Promise<WriteResult<void>> {
+        return this.write("deposit_for", [tokenId, value])
+    }
+
+    /// @notice Relays a delegation signed with signDelegation. The sender pays the gas, the signer's votes move.
+    delegateBySig(signed: SignedDelegation): Promise<WriteResult<void>> {
+        return this.write("delegateBySig", [signed.delegatee, signed.nonce, signed.expiry, signed.v, signed.r, signed.s])
+    }
+
+    // ---------------------------------------------------------------- internal
+
+    /// @notice Simulates `functionName` from the client's account, then sends the simulated request
+    private async write<
+        TFunctionName extends ContractFunctionName<VotingEscrowAbi, "nonpayable" | "payable">,
+        const TArgs extends ContractFunctionArgs<VotingEscrowAbi, "nonpayable" | "payable", TFunctionName>
+    >(
+        functionName: TFunctionName,
+        args: TArgs
+    ): Promise<WriteResult<ContractFunctionReturnType<VotingEscrowAbi, "nonpayable" | "payable", TFunctionName, TArgs>>> {
+        const wallet = this.wallet(functionName)
+        const { request, result } = await this.publicClient.simulateContract({
+            address: this.address,
+            abi: VotingEscrowABI,
+            functionName,
+            args,
+            account: wallet.account
+        })
+        // the simulated request is exactly what writeContract takes, but TypeScript cannot relate the two through the
+        // generic function name
+        return { hash: await wallet.writeContract(request as WriteContractParameters), result }
+    }
+
+    private wallet(functionName: string): WalletClient<Transport, Chain, Account> {
+        if (!this.walletClient) {
+            throw new AccountRequiredError(functionName)
+        }
+        return this.walletClient
+    }
+}
@@ -0,0 +1,257 @@
+import {
+    Address,
+    BaseError,
+    concat,
+    ContractFunctionRevertedError,
+    encodeAbiParameters,
+    Hash,
+    Hex,
+    hexToBigInt,
+    isAddressEqual,
+    keccak256,
+    maxUint256,
+    parseSignature,
+    PublicClient,
+    recoverAddress,
+    serializeSignature,
+    toHex
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+
+// VotingEscrow.delegateBySig does not follow EIP-712 exactly: its domain separator abi-encodes `name` and `version`
+// as strings instead of hashing them. Wallets signing through eth_signTypedData therefore produce signatures that
+// recover to an unrelated address. Delegations here are signed as a raw digest computed the way the contract does.
+
+/// @notice VotingEscrow.name and VotingEscrow.version, the fields of the delegation domain
+export const VOTING_ESCROW_NAME = "Voting Escrow Continuum"
+export const VOTING_ESCROW_VERSION = "1.0.0"
+
+export const DOMAIN_TYPEHASH = keccak256(toHex("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"))
+export const DELEGATION_TYPEHASH = keccak256(toHex("Delegation(address delegatee,uint256 nonce,uint256 expiry)"))
+
+/// @notice Storage slot of VotingEscrow._nonces, which has no getter. readDelegationNonce checks it against the
+/// deployed implementation before trusting it, see checkNoncesSlot.
+export const NONCES_SLOT = 29n
+
+/// @notice secp256k1n / 2, ECDSA.recover rejects signatures with a larger `s`
+const HALF_CURVE_ORDER = 0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0n
+
+/// @notice Where delegations are verified: the chain and the VotingEscrow proxy, `address(this)` in delegateBySig
+export interface DelegationDomain {
+    chainId: number | bigint
+    verifyingContract: Address
+}
+
+export interface Delegation {
+    delegatee: Address
+    nonce: bigint
+    /// @notice Last timestamp at which the signature can be relayed
+    expiry: bigint
+}
+
+/// @notice A delegation signed by `delegator`, with the signature split as delegateBySig takes it
+export interface SignedDelegation extends Delegation {
+    delegator: Address
+    signature: Hex
+    v: number
+    r: Hex
+    s: Hex
+}
+
+/// @notice Anything that signs a raw 32 byte digest for `address`, such as a viem LocalAccount
+export interface HashSigner {
+    address: Address
+    sign(parameters: { hash: Hash }): Promise<Hex>
+}
+
+/// @notice A custom error delegateBySig would revert with, in the same shape as viem's decodeErrorResult
+export type DelegationRevert =
+    | { errorName: "VotesExpiredSignature"; args: readonly [expiry: bigint] }
+    | { errorName: "VotingEscrow_InvalidAccountNonce"; args: readonly [account: Address, currentNonce: bigint] }
+    | { errorName: "ECDSAInvalidSignature"; args: readonly [] }
+    | { errorName: "ECDSAInvalidSignatureS"; args: readonly [s: Hex] }
+
+export interface DelegationCheck {
+    /// @notice True if the signature recovers to the delegator and would not revert
+    valid: boolean
+    /// @notice The address delegateBySig would delegate for, undefined if recovery fails
+    signer?: Address
+    revert?: DelegationRevert
+}
+
+/// @notice The domain separator as delegateBySig computes it: keccak256(abi.encode(TYPE_HASH, name, version, chainid, this))
+export function delegationDomainSeparator({ chainId, verifyingContract }: DelegationDomain): Hash {
+    return keccak256(encodeAbiParameters(
+        [{ type: "bytes32" }, { type: "string" }, { type: "string" }, { type: "uint256" }, { type: "address" }],
+        [DOMAIN_TYPEHASH, VOTING_ESCROW_NAME, VOTING_ESCROW_VERSION, BigInt(chainId), verifyingContract]
+    ))
+}
+
+/// @notice The digest the delegator signs and the contract recovers from
+export function delegationDigest(domain: DelegationDomain, { delegatee, nonce, expiry }: Delegation): Hash {
+    const structHash = keccak256(encodeAbiParameters(
+        [{ type: "bytes32" }, { type: "address" }, { type: "uint256" }, { type: "uint256" }],
+        [DELEGATION_TYPEHASH, delegatee, nonce, expiry]
+    ))
+    return keccak256(concat(["0x1901", delegationDomainSeparator(domain), structHash]))
+}
+
+/// @notice Thrown when `_nonces` is not at NONCES_SLOT in the deployed VotingEscrow, e.g. behind an implementation
+/// with a different storage layout
+export class NoncesSlotMismatchError extends Error {
+    constructor(public readonly votingEscrow: Address, public readonly slot: bigint) {
+        super(`VotingEscrow at ${votingEscrow} does not keep delegation nonces at slot ${slot}`)
+        this.name = "NoncesSlotMismatchError"
+    }
+}
+
+// checks already made, per client and VotingEscrow address
+const checkedSlots = new WeakMap<PublicClient, Map<string, Promise<void>>>()
+
+function nonceSlot(account: Address): Hex {
+    return keccak256(encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [account, NONCES_SLOT]))
+}
+
+/**
+ * @notice Checks that NONCES_SLOT holds `_nonces` in the implementation behind `votingEscrow`: a throwaway account's
+ * slot is overridden with a known nonce in an eth_call of delegateBySig, and the contract must report that nonce in
+ * its VotingEscrow_InvalidAccountNonce revert.
+ * @dev Needs an RPC that supports state overrides in eth_call. Throws NoncesSlotMismatchError if the contract reads
+ * its nonces from anywhere else.
+ */
+export async function checkNoncesSlot(client: PublicClient, votingEscrow: Address): Promise<void> {
+    const account = privateKeyToAccount(generatePrivateKey())
+    // any nonce a fresh account cannot have
+    const expected = 123_456_789n
+    const domain = { chainId: await client.getChainId(), verifyingContract: votingEscrow }
+    // nonce expected + 1 always reverts, reporting the nonce the contract read
+    const signed = await signDelegation(account, domain, { delegatee: account.address, nonce: expected + 1n, expiry: maxUint256 })
+
+    let current: bigint | undefined
+    try {
+        await client.simulateContract({
+            ...delegateBySigRequest(votingEscrow, signed),
+            stateOverride: [{ address: votingEscrow, stateDiff: [{ slot: nonceSlot(account.address), value: toHex(expected, { size: 32 }) }] }]
+        })
+    } catch (err) {
+        const reverted = err instanceof BaseError ? err.walk(e => e instanceof ContractFunctionRevertedError) : null
+        if (!(reverted instanceof ContractFunctionRevertedError)) throw err
+        if (reverted.data?.errorName === "VotingEscrow_InvalidAccountNonce") {
+            current = reverted.data.args?.[1] as bigint
+        }
+    }
+
+    if (current !== expected) {
+        throw new NoncesSlotMismatchError(votingEscrow, NONCES_SLOT)
+    }
+}
+
+/**
+ * @notice Reads `_nonces[account]`, the nonce the next delegateBySig from `account` must use.
+ * @dev The slot is checked with checkNoncesSlot on the first read from each VotingEscrow, so that a different storage
+ * layout throws instead of returning a nonce the contract would reject.
+ */
+export async function readDelegationNonce(client: PublicClient, votingEscrow: Address, account: Address): Promise<bigint> {
+    const checks = checkedSlots.get(client) ?? new Map<string, Promise<void>>()
+    checkedSlots.set(client, checks)
+    const key = votingEscrow.toLowerCase()
+    if (!checks.has(key)) {
+        checks.set(key, checkNoncesSlot(client, votingEscrow).catch(err => {
+            checks.delete(key)
+            throw err
+        }))
+    }
+    await checks.get(key)
+
+    const value = await client.getStorageAt({ address: votingEscrow, slot: nonceSlot(account) })
+    return value ? hexToBigInt(value) : 0n
+}
+
+/**
+ * @notice Hands out delegation nonces, so that several signatures can be collected before any is relayed.
+ * @dev Each account's nonce starts from the on-chain value and counts up for every signature issued. Signatures must
+ * be relayed in nonce order: one with nonce n + 1 reverts until the one with nonce n has been used.
+ */
+export class DelegationNonceTracker {
+    private readonly issued = new Map<string, bigint>()
+
+    constructor(private readonly client: PublicClient, private readonly votingEscrow: Address) {}
+
+    /// @notice Reserves and returns the next nonce for `account`
+    async next(account: Address): Promise<bigint> {
+        const nonce = await this.peek(account)
+        this.issued.set(account.toLowerCase(), nonce + 1n)
+        return nonce
+    }
+
+    /// @notice The nonce `next` would return, without reserving it
+    async peek(account: Address): Promise<bigint> {
+        const current = await readDelegationNonce(this.client, this.votingEscrow, account)
+        const issued = this.issued.get(account.toLowerCase())
+        return issued !== undefined && issued > current ? issued : current
+    }
+
+    /// @notice Drops reserved nonces for `account`, e.g. after its signatures were discarded
+    reset(account: Address): void {
+        this.issued.delete(account.toLowerCase())
+    }
+}
+
+/// @notice Splits a 65 byte signature into the v, r and s arguments of delegateBySig
+export function splitSignature(signature: Hex): { v: number; r: Hex; s: Hex } {
+    const { r, s, v, yParity } = parseSignature(signature)
+    return { v: v !== undefined ? Number(v) : 27 + yParity, r, s }
+}
+
+export async function signDelegation(signer: HashSigner, domain: DelegationDomain, delegation: Delegation): Promise<SignedDelegation> {
+    const signature = await signer.sign({ hash: delegationDigest(domain, delegation) })
+    return { ...delegation, delegator: signer.address, signature, ...splitSignature(signature) }
+}
+
+/**
+ * @notice Checks a signed delegation as delegateBySig would, without sending anything.
+ * @param now Chain time the delegation is expected to be relayed at. The expiry is checked when provided.
+ * @param currentNonce The delegator's nonce at that time, see readDelegationNonce. Checked when provided.
+ * @dev The contract does not compare the signer to anyone: a signature over different data recovers to some other
+ * address and delegates for it if that address's nonce happens to match. Such signatures are reported as invalid.
+ */
+export async function verifyDelegation(
+    domain: DelegationDomain,
+    signed: SignedDelegation,
+    { now, currentNonce }: { now?: bigint; currentNonce?: bigint } = {}
+): Promise<DelegationCheck> {
+    if (now !== undefined && now > signed.expiry) {
+        return { valid: false, revert: { errorName: "VotesExpiredSignature", args: [signed.expiry] } }
+    }
+    if (hexToBigInt(signed.s) > HALF_CURVE_ORDER) {
+        return { valid: false, revert: { errorName: "ECDSAInvalidSignatureS", args: [signed.s] } }
+    }
+
+    let signer: Address
+    try {
+        signer = await recoverAddress({
+            hash: delegationDigest(domain, signed),
+            signature: serializeSignature({ r: signed.r, s: signed.s, v: BigInt(signed.v) })
+        })
+    } catch {
+        return { valid: false, revert: { errorName: "ECDSAInvalidSignature", args: [] } }
+    }
+
+    if (currentNonce !== undefined && signed.nonce !== currentNonce) {
+        return { valid: false, signer, revert: { errorName: "VotingEscrow_InvalidAccountNonce", args: [signer, currentNonce] } }
+    }
+
+    return { valid: isAddressEqual(signer, signed.delegator), signer }
+}
+
+/// @notice Arguments for relaying `signed` with viem's writeContract or simulateContract, from any account
+export function delegateBySigRequest(votingEscrow: Address, signed: SignedDelegation) {
+    return {
+        address: votingEscrow,
+        abi: VotingEscrowABI,
+        functionName: "delegateBySig" as const,
+        args: [signed.delegatee, signed.nonce, signed.expiry, signed.v, signed.r, signed.s] as const
+    }
+}
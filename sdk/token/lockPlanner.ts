@@ -0,0 +1,142 @@
+import { LockedBalance } from "./VotingEscrowClient"
+import { balanceOfNFTAt, MAXTIME, userPoint, WEEK } from "./votingPower"
+
+/// @notice VotingEscrowErrorParam from src/utils/VotingEscrowUtils.sol, as decoded from error arguments (uint8)
+export const VotingEscrowErrorParam = {
+    Sender: 0,
+    Admin: 1,
+    Owner: 2,
+    Gov: 3,
+    Value: 4,
+    Approved: 5,
+    ApprovedOrOwner: 6,
+    Implementation: 7,
+    Treasury: 8,
+    Token: 9,
+    Rewards: 10,
+    NodeProperties: 11,
+    MinLock: 12
+} as const
+
+/// @notice A custom error the transaction would revert with, in the same shape as viem's decodeErrorResult
+export type LockRevert =
+    | { errorName: "VotingEscrow_LockBelowMin"; args: readonly [value: bigint] }
+    | { errorName: "VotingEscrow_InvalidUnlockTime"; args: readonly [unlockTime: bigint, maxTime: bigint] }
+    | { errorName: "VotingEscrow_LockExpired"; args: readonly [end: bigint] }
+    | { errorName: "VotingEscrow_NoExistingLock"; args: readonly [] }
+    | { errorName: "VotingEscrow_UnclaimedRewards"; args: readonly [tokenId: bigint] }
+    | { errorName: "VotingEscrow_OnlyAuthorized"; args: readonly [account: number, authorized: number] }
+
+export interface LockPlan {
+    /// @notice The unlock time the contract will store, after rounding down to the week and the MAXTIME adjustment
+    unlockTime: bigint
+    /// @notice The resulting lock, or the current one if the transaction would revert
+    locked: LockedBalance
+    /// @notice Voting power right after the transaction is mined at `now`
+    power: bigint
+    /// @notice Voting power at any later time, until the lock is next modified
+    powerAt(t: bigint): bigint
+    /// @notice Undefined if the transaction would succeed
+    revert?: LockRevert
+}
+
+export interface CreateLockParams {
+    value: bigint
+    lockDuration: bigint
+    /// @notice Chain time the transaction is expected to be mined at, e.g. the latest block timestamp
+    now: bigint
+    /// @notice `minimumLock()`, 1 CTM at deployment
+    minimumLock: bigint
+}
+
+export interface IncreaseUnlockTimeParams {
+    tokenId: bigint
+    locked: LockedBalance
+    lockDuration: bigint
+    now: bigint
+    /// @notice `Rewards.unclaimedRewards(tokenId)`. Checked first when provided.
+    unclaimedRewards?: bigint
+    /// @notice `isApprovedOrOwner(sender, tokenId)`. Checked when provided.
+    isApprovedOrOwner?: boolean
+}
+
+/// @notice `(now + lockDuration)` rounded down to a whole week, as create_lock and increase_unlock_time compute it
+export function roundUnlockTime(now: bigint, lockDuration: bigint): bigint {
+    return ((now + lockDuration) / WEEK) * WEEK
+}
+
+function plan(locked: LockedBalance, unlockTime: bigint, now: bigint, revert?: LockRevert): LockPlan {
+    const point = userPoint(locked, now)
+    return {
+        unlockTime,
+        locked,
+        power: balanceOfNFTAt(point, now),
+        powerAt: t => (t < now ? 0n : balanceOfNFTAt(point, t)),
+        ...(revert && { revert })
+    }
+}
+
+/**
+ * @notice Previews create_lock (and create_lock_for) at chain time `now`.
+ * @dev Follows _create_lock and _deposit_for: an unlock time up to one week past now + MAXTIME is pulled back by a
+ * week, anything further reverts.
+ */
+export function planCreateLock({ value, lockDuration, now, minimumLock }: CreateLockParams): LockPlan {
+    const empty = { amount: 0n, end: 0n }
+    let unlockTime = roundUnlockTime(now, lockDuration)
+
+    if (value < minimumLock) {
+        return plan(empty, unlockTime, now, { errorName: "VotingEscrow_LockBelowMin", args: [value] })
+    }
+    if (unlockTime <= now) {
+        return plan(empty, unlockTime, now, { errorName: "VotingEscrow_InvalidUnlockTime", args: [unlockTime, now] })
+    }
+    if (unlockTime > now + MAXTIME && unlockTime - (now + MAXTIME) <= WEEK) {
+        unlockTime -= WEEK
+    }
+    if (unlockTime > now + MAXTIME) {
+        return plan(empty, unlockTime, now, { errorName: "VotingEscrow_InvalidUnlockTime", args: [unlockTime, now + MAXTIME] })
+    }
+
+    return plan({ amount: value, end: unlockTime }, unlockTime, now)
+}
+
+/**
+ * @notice Previews increase_unlock_time at chain time `now`, checking in the same order as the contract.
+ * @dev Unlike create_lock, the MAXTIME check happens before _deposit_for, so there is no one week allowance.
+ */
+export function planIncreaseUnlockTime(params: IncreaseUnlockTimeParams): LockPlan {
+    const { tokenId, locked, lockDuration, now, unclaimedRewards, isApprovedOrOwner } = params
+    const unlockTime = roundUnlockTime(now, lockDuration)
+    const fail = (revert: LockRevert) => plan(locked, unlockTime, now, revert)
+
+    if (unclaimedRewards !== undefined && unclaimedRewards !== 0n) {
+        return fail({ errorName: "VotingEscrow_UnclaimedRewards", args: [tokenId] })
+    }
+    if (isApprovedOrOwner === false) {
+        return fail({
+            errorName: "VotingEscrow_OnlyAuthorized",
+            args: [VotingEscrowErrorParam.Sender, VotingEscrowErrorParam.ApprovedOrOwner]
+        })
+    }
+    if (locked.end <= now) {
+        return fail({ errorName: "VotingEscrow_LockExpired", args: [locked.end] })
+    }
+    if (locked.amount === 0n) {
+        return fail({ errorName: "VotingEscrow_NoExistingLock", args: [] })
+    }
+    if (unlockTime <= locked.end) {
+        return fail({ errorName: "VotingEscrow_InvalidUnlockTime", args: [unlockTime, locked.end] })
+    }
+    if (unlockTime > now + MAXTIME) {
+        return fail({ errorName: "VotingEscrow_InvalidUnlockTime", args: [unlockTime, now + MAXTIME] })
+    }
+
+    return plan({ amount: locked.amount, end: unlockTime }, unlockTime, now)
+}
+
+/// @notice The latest unlock time a lock created or extended at `now` can have: the last week boundary within MAXTIME.
+/// Passing MAXTIME as the lock duration always reaches it.
+export function maxUnlockTime(now: bigint): bigint {
+    return roundUnlockTime(now, MAXTIME)
+}
@@ -0,0 +1,141 @@
+import { LockedBalance } from "./VotingEscrowClient"
+
+// Mirrors the VotingEscrow constants and the int128/uint256 arithmetic of _checkpoint, _balanceOfNFT and _supply_at.
+// All values are bigints so that results match the contract to the wei. Checked operations throw where the contract
+// would revert, and explicit int128(int256(...)) casts truncate as they do in Solidity.
+
+export const WEEK = 7n * 86_400n
+export const MAXTIME = 4n * 365n * 86_400n
+
+const INT128_MIN = -(2n ** 127n)
+const INT128_MAX = 2n ** 127n - 1n
+const INT256_MAX = 2n ** 255n - 1n
+
+/// @notice IVotingEscrow.Point, as returned by `point_history(epoch)`
+export interface Point {
+    bias: bigint
+    slope: bigint
+    ts: bigint
+    blk: bigint
+}
+
+/// @notice Scheduled global slope changes, keyed by week timestamp, as returned by `slope_changes(week)`. Missing
+/// weeks are read as 0, like an unset mapping entry.
+export type SlopeChanges = ReadonlyMap<bigint, bigint>
+
+/// @notice Thrown where the contract would revert with a Panic (0x11) or a SafeCast error
+export class VotingPowerArithmeticError extends Error {
+    constructor(message: string) {
+        super(`VotingEscrow arithmetic would revert: ${message}`)
+        this.name = "VotingPowerArithmeticError"
+    }
+}
+
+function int128(value: bigint): bigint {
+    if (value < INT128_MIN || value > INT128_MAX) {
+        throw new VotingPowerArithmeticError(`int128 overflow (${value})`)
+    }
+    return value
+}
+
+function uint256(value: bigint): bigint {
+    if (value < 0n) {
+        throw new VotingPowerArithmeticError(`uint256 underflow (${value})`)
+    }
+    return value
+}
+
+/// @notice Decodes the tuple returned by `point_history(epoch)`
+export function toPoint([bias, slope, ts, blk]: readonly [bigint, bigint, bigint, bigint]): Point {
+    return { bias, slope, ts, blk }
+}
+
+/**
+ * @notice Rebuilds the last user point of a token, which the contract keeps private.
+ * @param locked The token's current `locked(tokenId)`.
+ * @param ts The time of its last checkpoint, `user_point_history__ts(tokenId, user_point_epoch(tokenId))`.
+ * @dev Every checkpoint of a token writes the new LockedBalance to `locked` in the same call, so slope and bias
+ * follow from it exactly as computed for `u_new` in _checkpoint.
+ */
+export function userPoint(locked: LockedBalance, ts: bigint): Point {
+    if (locked.end <= ts || locked.amount <= 0n) {
+        return { bias: 0n, slope: 0n, ts, blk: 0n }
+    }
+    // bigint division truncates toward zero, like Solidity's signed division
+    const slope = locked.amount / int128(MAXTIME)
+    const bias = int128(slope * BigInt.asIntN(128, locked.end - ts))
+    return { bias, slope, ts, blk: 0n }
+}
+
+/**
+ * @notice Reproduces `balanceOfNFTAt(tokenId, t)` from the token's last user point.
+ * @param point The last user point, see userPoint. Pass undefined for tokens with no checkpoint (user epoch 0).
+ * @dev Like the contract, this extrapolates from the last checkpoint for any `t`, so for times before the token was
+ * last modified it returns what the contract returns now, not what it returned then.
+ */
+export function balanceOfNFTAt(point: Point | undefined, t: bigint): bigint {
+    if (!point) return 0n
+
+    if (t > INT256_MAX) {
+        throw new VotingPowerArithmeticError(`SafeCast: ${t} does not fit in int256`)
+    }
+    // int128(int256) is a truncating conversion
+    const dt = BigInt.asIntN(128, t - point.ts)
+    const bias = int128(point.bias - int128(point.slope * dt))
+
+    return bias < 0n ? 0n : bias
+}
+
+/**
+ * @notice Reproduces `_supply_at(point, t)`: walks weekly slope changes forward from `point` to `t`.
+ * @dev Reverts (throws) for `t` before `point.ts`, and stops after 255 weeks, both as the contract does.
+ */
+export function supplyAt(point: Point, t: bigint, slopeChanges: SlopeChanges): bigint {
+    let { bias, slope, ts } = point
+    let t_i = (ts / WEEK) * WEEK
+
+    for (let i = 0; i < 255; i++) {
+        t_i += WEEK
+        let d_slope = 0n
+        if (t_i > t) {
+            t_i = t
+        } else {
+            d_slope = slopeChanges.get(t_i) ?? 0n
+        }
+        bias = int128(bias - int128(slope * BigInt.asIntN(128, uint256(t_i - ts))))
+        if (t_i === t) {
+            break
+        }
+        slope = int128(slope + d_slope)
+        ts = t_i
+    }
+
+    return bias < 0n ? 0n : bias
+}
+
+/**
+ * @notice Reproduces `totalPowerAtT(t)`.
+ * @param lastPoint `point_history(epoch())`, the latest global point.
+ * @param slopeChanges Must contain every week returned by slopeChangeWeeks(lastPoint, t) that has a nonzero change.
+ */
+export function totalPowerAtT(lastPoint: Point, t: bigint, slopeChanges: SlopeChanges): bigint {
+    return supplyAt(lastPoint, t, slopeChanges)
+}
+
+/// @notice The week timestamps whose `slope_changes` supplyAt reads between `point` and `t`, to fetch in one batch
+export function slopeChangeWeeks(point: Point, t: bigint): bigint[] {
+    const weeks: bigint[] = []
+    for (let t_i = (point.ts / WEEK) * WEEK + WEEK; t_i <= t && weeks.length < 255; t_i += WEEK) {
+        weeks.push(t_i)
+    }
+    return weeks
+}
+
+/**
+ * @notice Voting power of a token at each of `timestamps`, for plotting decay curves without further RPC calls.
+ * @dev Valid from the last checkpoint onwards, until the token is next modified.
+ */
+export function powerCurve(locked: LockedBalance, checkpointTs: bigint, timestamps: readonly bigint[]): bigint[] {
+    const point = userPoint(locked, checkpointTs)
+    return timestamps.map(t => balanceOfNFTAt(point, t))
+}
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict"
+import { after, before, describe, test } from "node:test"
+import { Address, encodeFunctionData, erc20Abi, Hash, http, maxUint256 } from "viem"
+import { foundry } from "viem/chains"
+
+import { indexGovernance, openGovernanceStore } from "../../js-helpers/lib/governance-indexer"
+import { Store } from "../../js-helpers/lib/indexer"
+import { Deployment } from "../../sdk/deployments"
+import { simulateUnclaimedRewards } from "../../sdk/node/rewardsSimulator"
+import { readDelegationNonce } from "../../sdk/token/delegateBySig"
+import { VotingEscrowClient } from "../../sdk/token/VotingEscrowClient"
+import { balanceOfNFTAt, MAXTIME, userPoint, WEEK } from "../../sdk/token/votingPower"
+import { ACCOUNTS, advance, Anvil, deal, deployVotingEscrow, foundryMissing, startAnvil } from "./anvil"
+
+const [alice, bob, treasury] = ACCOUNTS
+const ONE_DAY = 86_400n
+
+// Deploys with the forge script and checks the off-chain engines against the contracts. Skipped without foundry.
+describe("against a local anvil deployment", { skip: foundryMissing() }, () => {
+    let anvil: Anvil
+    let deployment: Deployment
+    let db: Store
+    const tokenIds: bigint[] = []
+    let proposalId: bigint
+
+    const send = async (hash: Hash) => {
+        await anvil.client.waitForTransactionReceipt({ hash })
+    }
+
+    const index = () => indexGovernance({
+        client: anvil.client,
+        db,
+        governor: deployment.ctmDAOGovernor.address,
+        fromBlock: deployment.ctmDAOGovernor.blockNumber ?? 0n
+    })
+
+    const votes = () => db.prepare("SELECT voter, support, weight FROM votes ORDER BY block_number, log_index").all() as
+        { voter: string; support: number; weight: string }[]
+
+    before(async () => {
+        anvil = await startAnvil()
+        deployment = deployVotingEscrow(anvil, treasury, treasury)
+        db = openGovernanceStore(":memory:")
+
+        for (const [account, amount, duration] of [[alice, 10_000n * 10n ** 18n, MAXTIME], [bob, 6_000n * 10n ** 18n, 52n * WEEK]] as const) {
+            await deal(anvil, deployment.ctm.address, account, amount)
+            await send(await anvil.wallet.writeContract({
+                account,
+                address: deployment.ctm.address,
+                abi: erc20Abi,
+                functionName: "approve",
+                args: [deployment.votingEscrow.address, maxUint256]
+            }))
+
+            const ve = new VotingEscrowClient({ transport: http(anvil.rpc), chain: foundry, address: deployment.votingEscrow.address, account })
+            const { hash, result } = await ve.createLock(amount, duration)
+            await send(hash)
+            tokenIds.push(result)
+        }
+    })
+
+    after(() => {
+        db?.close()
+        anvil?.stop()
+    })
+
+    test("balanceOfNFTAt matches votingPower.ts", async () => {
+        const ve = { address: deployment.votingEscrow.address, abi: deployment.votingEscrow.abi } as const
+        const { timestamp } = await anvil.client.getBlock()
+
+        for (const tokenId of tokenIds) {
+            const [[amount, end], epoch] = await Promise.all([
+                anvil.client.readContract({ ...ve, functionName: "locked", args: [tokenId] }),
+                anvil.client.readContract({ ...ve, functionName: "user_point_epoch", args: [tokenId] })
+            ])
+            const ts = await anvil.client.readContract({ ...ve, functionName: "user_point_history__ts", args: [tokenId, epoch] })
+            const point = userPoint({ amount, end }, ts)
+
+            for (const t of [timestamp, timestamp + ONE_DAY, timestamp + 30n * ONE_DAY, end - 1n, end, end + WEEK]) {
+                const onChain = await anvil.client.readContract({ ...ve, functionName: "balanceOfNFTAt", args: [tokenId, t] })
+                assert.equal(balanceOfNFTAt(point, t), onChain, `token ${tokenId} at ${t}`)
+            }
+        }
+    })
+
+    test("unclaimedRewards matches rewardsSimulator.ts", async () => {
+        await advance(anvil, 3n * ONE_DAY)
+
+        for (const tokenId of tokenIds) {
+            const [onChain, simulation] = await Promise.all([
+                anvil.client.readContract({
+                    address: deployment.rewards.address,
+                    abi: deployment.rewards.abi,
+                    functionName: "unclaimedRewards",
+                    args: [tokenId]
+                }),
+                simulateUnclaimedRewards(anvil.client, deployment, tokenId)
+            ])
+            assert.equal(simulation.total, onChain, `token ${tokenId}`)
+            assert.ok(onChain > 0n)
+        }
+    })
+
+    test("readDelegationNonce verifies the nonces slot of the deployed VotingEscrow", async () => {
+        assert.equal(await readDelegationNonce(anvil.client, deployment.votingEscrow.address, alice), 0n)
+    })
+
+    test("indexes proposals and votes", async () => {
+        const governor = { address: deployment.ctmDAOGovernor.address, abi: deployment.ctmDAOGovernor.abi } as const
+        const calldata = encodeFunctionData({ abi: deployment.rewards.abi, functionName: "setBaseEmissionRate", args: [10n ** 18n / 1000n] })
+        const args = [[deployment.rewards.address], [0n], [calldata], "Raise the base emission rate"] as const
+
+        const { request, result } = await anvil.client.simulateContract({ ...governor, functionName: "propose", args, account: alice })
+        await send(await anvil.wallet.writeContract(request))
+        proposalId = result
+
+        const votingDelay = await anvil.client.readContract({ ...governor, functionName: "votingDelay" })
+        await advance(anvil, votingDelay + 1n)
+        await send(await anvil.wallet.writeContract({ ...governor, functionName: "castVote", args: [proposalId, 1], account: alice }))
+
+        await index()
+
+        const proposal = db.prepare("SELECT proposer, kind, description FROM proposals WHERE proposal_id = ?").get(proposalId.toString())
+        assert.deepEqual(proposal, { proposer: alice.toLowerCase(), kind: "bravo", description: args[3] })
+
+        const operations = db.prepare("SELECT target, calldata FROM proposal_operations WHERE proposal_id = ?").all(proposalId.toString())
+        assert.deepEqual(operations, [{ target: deployment.rewards.address.toLowerCase(), calldata }])
+
+        const snapshot = await anvil.client.readContract({ ...governor, functionName: "proposalSnapshot", args: [proposalId] })
+        const weight = await anvil.client.readContract({ ...governor, functionName: "getVotes", args: [alice, snapshot] })
+        assert.deepEqual(votes(), [{ voter: alice.toLowerCase(), support: 1, weight: weight.toString() }])
+    })
+
+    test("rolls back votes dropped by a reorg", async () => {
+        const governor = { address: deployment.ctmDAOGovernor.address, abi: deployment.ctmDAOGovernor.abi } as const
+        const vote = async (voter: Address, support: number) => {
+            await send(await anvil.wallet.writeContract({ ...governor, functionName: "castVote", args: [proposalId, support], account: voter }))
+        }
+
+        const id = await anvil.test.snapshot()
+        await vote(bob, 1)
+        assert.equal((await index()).rolledBackTo, undefined)
+        assert.deepEqual(votes().map(row => [row.voter, row.support]), [[alice.toLowerCase(), 1], [bob.toLowerCase(), 1]])
+
+        // replace the block holding bob's vote with one in which he votes against, then move past it
+        await anvil.test.revert({ id })
+        await vote(bob, 0)
+        await anvil.test.mine({ blocks: 1 })
+
+        const result = await index()
+        assert.notEqual(result.rolledBackTo, undefined)
+        assert.deepEqual(votes().map(row => [row.voter, row.support]), [[alice.toLowerCase(), 1], [bob.toLowerCase(), 0]])
+    })
+})
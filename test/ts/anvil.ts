@@ -0,0 +1,164 @@
+import { ChildProcess, execFileSync, spawn, spawnSync } from "node:child_process"
+import { createServer } from "node:net"
+import path from "node:path"
+import {
+    Address,
+    createPublicClient,
+    createTestClient,
+    createWalletClient,
+    encodeAbiParameters,
+    erc20Abi,
+    http,
+    keccak256,
+    PublicClient,
+    TestClient,
+    toHex,
+    Transport,
+    WalletClient
+} from "viem"
+import { foundry } from "viem/chains"
+
+import { readBroadcasts } from "../../js-helpers/lib/broadcast"
+import { AddressBook, ContractKey, Deployment, DeploymentRecords, getDeployment } from "../../sdk/deployments"
+
+const root = path.join(__dirname, "..", "..")
+
+/// @notice The first accounts anvil funds and unlocks with its default mnemonic
+export const ACCOUNTS = [
+    "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+    "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+    "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC"
+] as const satisfies readonly Address[]
+
+const DEPLOYER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcb6ae84d5a7a8ff80"
+
+// the names DeployVotingEscrow gives its contracts, keyed as in contract-addresses.json
+const CONTRACT_KEYS: Record<string, ContractKey> = {
+    CTM: "ctm",
+    VotingEscrowProxy: "votingEscrowProxy",
+    VotingEscrow: "votingEscrowImpl",
+    ContinuumDAO: "ctmDAOGovernor",
+    NodeProperties: "nodeProperties",
+    Rewards: "rewards"
+}
+
+// keccak256(abi.encode(uint256(keccak256("openzeppelin.storage.ERC20")) - 1)) & ~bytes32(uint256(0xff))
+const ERC20_STORAGE = 0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace00n
+
+export interface Anvil {
+    rpc: string
+    client: PublicClient<Transport, typeof foundry>
+    test: TestClient<"anvil", Transport, typeof foundry>
+    wallet: WalletClient<Transport, typeof foundry>
+    stop(): void
+}
+
+/// @notice Why the anvil-backed tests cannot run here, or false if anvil and forge are both installed
+export function foundryMissing(): string | false {
+    for (const binary of ["anvil", "forge"]) {
+        if (spawnSync(binary, ["--version"], { stdio: "ignore" }).error) {
+            return `${binary} is not installed`
+        }
+    }
+    return false
+}
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = createServer()
+        server.once("error", reject)
+        server.listen(0, "127.0.0.1", () => {
+            const { port } = server.address() as { port: number }
+            server.close(() => resolve(port))
+        })
+    })
+}
+
+/// @notice Starts anvil on a free port and waits until it answers
+export async function startAnvil(): Promise<Anvil> {
+    const port = await freePort()
+    const rpc = `http://127.0.0.1:${port}`
+    const child: ChildProcess = spawn("anvil", ["--port", String(port), "--silent"], { stdio: "ignore" })
+
+    const transport = http(rpc)
+    const anvil: Anvil = {
+        rpc,
+        client: createPublicClient({ chain: foundry, transport }),
+        test: createTestClient({ chain: foundry, mode: "anvil", transport }),
+        wallet: createWalletClient({ chain: foundry, transport }),
+        stop: () => child.kill()
+    }
+
+    for (let attempt = 0; attempt < 100; attempt++) {
+        if (child.exitCode !== null) {
+            throw new Error(`startAnvil: anvil exited with code ${child.exitCode}`)
+        }
+        try {
+            await anvil.client.getChainId()
+            return anvil
+        } catch {
+            await new Promise(resolve => setTimeout(resolve, 100))
+        }
+    }
+    anvil.stop()
+    throw new Error(`startAnvil: no response from ${rpc}`)
+}
+
+/**
+ * @notice Deploys the contracts with script/DeployVotingEscrow.s.sol and returns them as getDeployment would for a
+ * live chain, reading the addresses and blocks from the broadcast the script leaves in broadcast/.
+ * @param feeToken Any address: Rewards only stores it.
+ */
+export function deployVotingEscrow(anvil: Anvil, treasury: Address, feeToken: Address): Deployment {
+    execFileSync(
+        "forge",
+        ["script", "script/DeployVotingEscrow.s.sol:DeployVotingEscrow", "--rpc-url", anvil.rpc, "--broadcast", "--private-key", DEPLOYER_KEY],
+        {
+            cwd: root,
+            env: { ...process.env, DEPLOYER: ACCOUNTS[0], [`FEE_TOKEN_${foundry.id}`]: feeToken, [`TREASURY_${foundry.id}`]: treasury },
+            stdio: "pipe",
+            timeout: 600_000
+        }
+    )
+
+    const book: AddressBook = { [foundry.id]: {} }
+    const records: DeploymentRecords = { [foundry.id]: {} }
+
+    // earlier local runs are in the same directory, and the latest deployment of each contract comes last
+    const { deployments } = readBroadcasts(path.join(root, "broadcast"), true)
+    for (const deployment of deployments) {
+        const key = deployment.name && CONTRACT_KEYS[deployment.name]
+        if (!key || deployment.chainId !== foundry.id || deployment.script !== "DeployVotingEscrow.s.sol") continue
+
+        book[foundry.id][key] = deployment.address
+        records[foundry.id][key] = { contractName: deployment.name!, blockNumber: deployment.blockNumber }
+    }
+    return getDeployment(foundry.id, book, records)
+}
+
+/**
+ * @notice Sets the ERC20 balance of `account`, which CTM only mints through c3caller.
+ * @dev Probes the mapping slots of a plain ERC20 and the ERC-7201 namespace of an upgradeable one for the slot that
+ * balanceOf reads, restoring every slot that is not it.
+ */
+export async function deal(anvil: Anvil, token: Address, account: Address, amount: bigint): Promise<void> {
+    const bases = [...Array.from({ length: 20 }, (_, i) => BigInt(i)), ERC20_STORAGE]
+
+    for (const base of bases) {
+        const slot = keccak256(encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [account, base]))
+        const previous = await anvil.client.getStorageAt({ address: token, slot })
+
+        await anvil.test.setStorageAt({ address: token, index: slot, value: toHex(amount, { size: 32 }) })
+        const balance = await anvil.client.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [account] })
+        if (balance === amount) return
+
+        await anvil.test.setStorageAt({ address: token, index: slot, value: previous ?? toHex(0n, { size: 32 }) })
+    }
+    throw new Error(`deal: no balance slot found for ${token}`)
+}
+
+/// @notice Moves the chain `seconds` forward and mines a block at the new time
+export async function advance(anvil: Anvil, seconds: bigint): Promise<void> {
+    await anvil.test.increaseTime({ seconds: Number(seconds) })
+    await anvil.test.mine({ blocks: 1 })
+}
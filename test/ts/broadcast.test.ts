@@ -0,0 +1,102 @@
+import assert from "node:assert/strict"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, before, test } from "node:test"
+
+import { BroadcastRun, BroadcastTransaction, DeployedContract, findDeployment, readBroadcasts } from "../../js-helpers/lib/broadcast"
+
+const deployer = "0x00000000000000000000000000000000000000d0"
+const implementation = "0x00000000000000000000000000000000000000A1"
+const proxy = "0x00000000000000000000000000000000000000B2"
+const factory = "0x00000000000000000000000000000000000000f0"
+const create2Proxy = "0x00000000000000000000000000000000000000c3"
+
+let dir: string
+
+function transaction(hash: string, transactionType: string, contractName: string | null, contractAddress: string | null, extra: Partial<BroadcastTransaction> = {}): BroadcastTransaction {
+    return { hash, transactionType, contractName, contractAddress, function: null, arguments: null, transaction: { from: deployer, input: "0x" }, ...extra }
+}
+
+function writeRun(script: string, chainId: string, file: string, run: Omit<BroadcastRun, "chain" | "commit">): void {
+    const chainDir = path.join(dir, script, chainId)
+    mkdirSync(chainDir, { recursive: true })
+    const receipts = run.receipts.length ? run.receipts : run.transactions.map((tx, i) => ({
+        transactionHash: tx.hash!,
+        blockNumber: `0x${(run.timestamp + i).toString(16)}`,
+        from: deployer,
+        status: "0x1"
+    }))
+    writeFileSync(path.join(chainDir, file), JSON.stringify({ ...run, receipts, chain: Number(chainId), commit: "abc1234" }))
+}
+
+const names = (deployments: DeployedContract[]) => deployments.map(deployment => `${deployment.chainId}:${deployment.name}`)
+
+before(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "broadcast-"))
+
+    const deploy = {
+        timestamp: 1000,
+        transactions: [
+            transaction("0x01", "CREATE", "VotingEscrow", implementation),
+            transaction("0x02", "CREATE", "VotingEscrowProxy", proxy, { arguments: [implementation, "0x"] }),
+            transaction("0x03", "CALL", "VotingEscrow", proxy, { function: "setUp(address)", arguments: [deployer] })
+        ],
+        receipts: []
+    }
+    // forge writes the latest run twice
+    writeRun("DeployVotingEscrow.s.sol", "1", "run-1000.json", deploy)
+    writeRun("DeployVotingEscrow.s.sol", "1", "run-latest.json", deploy)
+
+    writeRun("DeployVotingEscrow.s.sol", "31337", "run-latest.json", { timestamp: 500, transactions: [transaction("0x01", "CREATE", "VotingEscrow", implementation)], receipts: [] })
+    writeRun("DeployVotingEscrow.s.sol", "dry-run", "run-latest.json", { timestamp: 500, transactions: [transaction("0x09", "CREATE", "VotingEscrow", implementation)], receipts: [] })
+
+    // a reverted creation, then a proxy created by a factory whose init code embeds the implementation address
+    writeRun("DeployFactory.s.sol", "1", "run-2000.json", {
+        timestamp: 2000,
+        transactions: [
+            transaction("0x04", "CREATE", "Rewards", "0x00000000000000000000000000000000000000e4"),
+            transaction("0x05", "CALL", "Factory", factory, {
+                additionalContracts: [{
+                    transactionType: "CREATE2",
+                    address: create2Proxy,
+                    initCode: `0x6080${implementation.slice(2).toLowerCase().padStart(64, "0")}`,
+                    contractName: "CTMProxy"
+                }]
+            })
+        ],
+        receipts: [
+            { transactionHash: "0x04", blockNumber: "0x7d0", from: deployer, status: "0x0" },
+            { transactionHash: "0x05", blockNumber: "0x7d1", from: deployer, status: "0x1" }
+        ]
+    })
+})
+
+after(() => {
+    rmSync(dir, { recursive: true, force: true })
+})
+
+test("reads each transaction once, skipping failed, local and dry-run broadcasts", () => {
+    const { deployments, calls } = readBroadcasts(dir)
+
+    assert.deepEqual(names(deployments), ["1:VotingEscrow", "1:VotingEscrowProxy", "1:CTMProxy"])
+    assert.equal(deployments[0].runFile, path.join("DeployVotingEscrow.s.sol", "1", "run-1000.json"))
+    assert.equal(deployments[0].blockNumber, 1000)
+    assert.deepEqual(calls.map(call => [call.contractName, call.function]), [["VotingEscrow", "setUp(address)"], ["Factory", null]])
+
+    assert.deepEqual(names(readBroadcasts(dir, true).deployments), ["31337:VotingEscrow", "1:VotingEscrow", "1:VotingEscrowProxy", "1:CTMProxy"])
+    assert.throws(() => readBroadcasts(path.join(dir, "missing")), /Broadcast directory not found/)
+})
+
+test("records factory deployments and links proxies to their implementation", () => {
+    const { deployments } = readBroadcasts(dir)
+
+    const created = findDeployment(deployments, 1, create2Proxy.toUpperCase().replace("0X", "0x"))!
+    assert.equal(created.creation, "CREATE2")
+    assert.equal(created.deployer, factory)
+    assert.equal(created.implementation, implementation.toLowerCase())
+
+    assert.equal(findDeployment(deployments, 1, proxy)!.implementation, implementation.toLowerCase())
+    assert.equal(findDeployment(deployments, 1, implementation)!.implementation, undefined)
+    assert.equal(findDeployment(deployments, 137, proxy), undefined)
+})
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parseEther } from "viem"
+
+import { gasPriceInCtm, optimiseToken, TokenRewardsState } from "../../sdk/node/claimOptimiser"
+import { ONE_DAY } from "../../sdk/node/rewardsSimulator"
+import { userPoint } from "../../sdk/token/votingPower"
+
+const createdAt = 1_760_000_000n
+const locked = { amount: parseEther("10000"), end: 1_790_000_000n - (1_790_000_000n % (7n * ONE_DAY)) }
+const latestMidnight = createdAt - (createdAt % ONE_DAY) + 30n * ONE_DAY
+
+const token: TokenRewardsState = {
+    tokenId: 1n,
+    locked,
+    point: userPoint(locked, createdAt),
+    createdAt,
+    lastClaimed: 0n,
+    latestMidnight,
+    baseEmissionRates: [{ key: 0n, value: parseEther("1") / 2000n }],
+    nodeEmissionRates: [{ key: 0n, value: parseEther("1") / 1000n }],
+    nodeRewardThresholds: [{ key: 0n, value: parseEther("5000") }],
+    nodeQualities: []
+}
+
+test("recommends a strategy for each interval", () => {
+    const recommendation = optimiseToken(token, { horizon: latestMidnight + 60n * ONE_DAY, intervals: [7n, 30n], ctmPerGas: 0n })
+    assert.ok(recommendation.unclaimedNow > 0n)
+    assert.deepEqual(recommendation.blockedActions, ["withdraw", "liquidate", "merge", "split", "increase_amount", "increase_unlock_time"])
+    assert.ok(recommendation.best.net >= recommendation.alternatives[0].net)
+})
+
+test("rejects intervals that are not positive", () => {
+    assert.throws(() => optimiseToken(token, { horizon: latestMidnight + 60n * ONE_DAY, intervals: [7n, 0n], ctmPerGas: 0n }), /intervals must be positive, got 0/)
+})
+
+test("acts less often as gas gets more expensive", () => {
+    const best = (ctmPerGas: bigint) => optimiseToken(token, { horizon: latestMidnight + 60n * ONE_DAY, intervals: [1n, 30n], ctmPerGas }).best
+
+    assert.equal(best(0n).intervalDays, 1n)
+
+    // 0.1 gwei, with one native token buying a million CTM
+    const expensive = best(gasPriceInCtm(100_000_000n, parseEther("1000000")))
+    assert.equal(expensive.intervalDays, 30n)
+    assert.equal(expensive.gasCost, expensive.gas * 10n ** 14n)
+})
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import {
+    Address,
+    createPublicClient,
+    custom,
+    decodeFunctionData,
+    encodeAbiParameters,
+    encodeErrorResult,
+    Hex,
+    keccak256,
+    PublicClient,
+    recoverAddress,
+    serializeSignature,
+    toHex
+} from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import {
+    checkNoncesSlot,
+    delegationDigest,
+    NONCES_SLOT,
+    NoncesSlotMismatchError,
+    readDelegationNonce,
+    signDelegation,
+    verifyDelegation
+} from "../../sdk/token/delegateBySig"
+
+// the first anvil account
+const account = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcb6ae84d5a7a8ff80")
+const votingEscrow: Address = "0x0000000000000000000000000000000000000abc"
+const delegatee: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+const domain = { chainId: 1n, verifyingContract: votingEscrow }
+
+/**
+ * @notice A client whose VotingEscrow keeps its nonces at `slot`: delegateBySig calls recover the signer as the
+ * contract does and revert with VotingEscrow_InvalidAccountNonce, reading the nonce from the call's state override.
+ */
+function mockVotingEscrow(slot: bigint, calls: string[] = []): PublicClient {
+    const nonceSlot = (owner: Address) => keccak256(encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [owner, slot]))
+
+    return createPublicClient({
+        transport: custom({
+            async request({ method, params }: { method: string; params: any[] }) {
+                calls.push(method)
+                if (method === "eth_chainId") return "0x1"
+                if (method === "eth_getStorageAt") return toHex(params[1] === nonceSlot(account.address) ? 7n : 0n, { size: 32 })
+                if (method !== "eth_call") throw new Error(`unexpected ${method}`)
+
+                const { args: [to, nonce, expiry, v, r, s] } = decodeFunctionData({ abi: VotingEscrowABI, data: params[0].data as Hex }) as
+                    { args: readonly [Address, bigint, bigint, number, Hex, Hex] }
+                const signer = await recoverAddress({
+                    hash: delegationDigest(domain, { delegatee: to, nonce, expiry }),
+                    signature: serializeSignature({ r, s, v: BigInt(v) })
+                })
+                const overrides = params[2]?.[votingEscrow]?.stateDiff ?? {}
+                const current = BigInt(overrides[nonceSlot(signer)] ?? 0)
+                throw {
+                    code: 3,
+                    message: "execution reverted",
+                    data: encodeErrorResult({ abi: VotingEscrowABI, errorName: "VotingEscrow_InvalidAccountNonce", args: [signer, current] })
+                }
+            }
+        }, { retryCount: 0 })
+    }) as PublicClient
+}
+
+test("signs delegations that recover to the delegator", async () => {
+    const signed = await signDelegation(account, domain, { delegatee, nonce: 3n, expiry: 1_800_000_000n })
+
+    assert.equal(signed.delegator, account.address)
+    assert.ok(signed.v === 27 || signed.v === 28)
+    assert.deepEqual(await verifyDelegation(domain, signed, { now: 1_700_000_000n, currentNonce: 3n }), { valid: true, signer: account.address })
+})
+
+test("reports the reverts delegateBySig would hit", async () => {
+    const signed = await signDelegation(account, domain, { delegatee, nonce: 3n, expiry: 1_800_000_000n })
+
+    assert.deepEqual(await verifyDelegation(domain, signed, { now: 1_800_000_001n }), {
+        valid: false,
+        revert: { errorName: "VotesExpiredSignature", args: [1_800_000_000n] }
+    })
+    assert.deepEqual(await verifyDelegation(domain, signed, { currentNonce: 4n }), {
+        valid: false,
+        signer: account.address,
+        revert: { errorName: "VotingEscrow_InvalidAccountNonce", args: [account.address, 4n] }
+    })
+
+    const malleable = BigInt("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141") - BigInt(signed.s)
+    const s = toHex(malleable, { size: 32 })
+    assert.deepEqual((await verifyDelegation(domain, { ...signed, s })).revert, { errorName: "ECDSAInvalidSignatureS", args: [s] })
+})
+
+test("a delegation signed for another contract or delegatee recovers to someone else", async () => {
+    const signed = await signDelegation(account, { ...domain, chainId: 2n }, { delegatee, nonce: 0n, expiry: 1_800_000_000n })
+    const check = await verifyDelegation(domain, signed)
+    assert.equal(check.valid, false)
+    assert.notEqual(check.signer, account.address)
+
+    const forged = { ...(await signDelegation(account, domain, { delegatee, nonce: 0n, expiry: 1_800_000_000n })), delegatee: votingEscrow }
+    assert.equal((await verifyDelegation(domain, forged)).valid, false)
+})
+
+test("checks the nonces slot once before reading nonces", async () => {
+    const calls: string[] = []
+    const client = mockVotingEscrow(NONCES_SLOT, calls)
+
+    assert.equal(await readDelegationNonce(client, votingEscrow, account.address), 7n)
+    assert.equal(await readDelegationNonce(client, votingEscrow, delegatee), 0n)
+    assert.equal(calls.filter(method => method === "eth_call").length, 1)
+
+    await assert.rejects(checkNoncesSlot(mockVotingEscrow(NONCES_SLOT + 1n), votingEscrow), NoncesSlotMismatchError)
+    await assert.rejects(readDelegationNonce(mockVotingEscrow(NONCES_SLOT + 1n), votingEscrow, account.address), NoncesSlotMismatchError)
+})
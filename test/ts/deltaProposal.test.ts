@@ -0,0 +1,56 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Address, concat, encodeFunctionData, numberToHex, zeroAddress } from "viem"
+
+import { RewardsABI } from "../../abi/Rewards"
+import { DeltaProposalBuilder, DeltaProposalError, encodeDeltaMetadata, hashDescription, hashProposal } from "../../sdk/governance/deltaProposal"
+
+const rewards: Address = "0x0000000000000000000000000000000000000700"
+const setRate = (rate: bigint) => ({ target: rewards, calldata: encodeFunctionData({ abi: RewardsABI, functionName: "setBaseEmissionRate", args: [rate] }) })
+
+test("encodes the metadata header as one word per field", () => {
+    const word = (value: bigint) => numberToHex(value, { size: 32 })
+    assert.equal(
+        encodeDeltaMetadata({ nOptions: 3n, nWinners: 1n, optionIndices: [1n, 2n, 4n] }),
+        concat([word(3n), word(1n), word(1n), word(2n), word(4n)])
+    )
+})
+
+test("lays out the options after the header", () => {
+    const proposal = new DeltaProposalBuilder("#12: Set emission rate")
+        .addOption("Keep", [setRate(1n)])
+        .addOption("Raise", [setRate(2n), { ...setRate(3n), value: 5n }])
+        .addOption("Lower", [setRate(0n)])
+        .setWinners(1)
+        .build()
+
+    const [targets, values, calldatas, description] = proposal.request.args
+    assert.deepEqual(targets, [zeroAddress, rewards, rewards, rewards, rewards])
+    assert.deepEqual(values, [0n, 0n, 0n, 5n, 0n])
+    assert.equal(calldatas[0], encodeDeltaMetadata({ nOptions: 3n, nWinners: 1n, optionIndices: [1n, 2n, 4n] }))
+    assert.deepEqual(calldatas.slice(1), [setRate(1n), setRate(2n), setRate(3n), setRate(0n)].map(op => op.calldata))
+    assert.deepEqual(proposal.options.map(option => [option.name, option.index, option.startIndex]), [["Keep", 0, 1n], ["Raise", 1, 2n], ["Lower", 2, 4n]])
+
+    assert.equal(proposal.descriptionHash, hashDescription(description))
+    assert.equal(proposal.proposalId, hashProposal(targets, values, calldatas, proposal.descriptionHash))
+    assert.notEqual(proposal.proposalId, new DeltaProposalBuilder("#13").addOption("Keep", [setRate(1n)]).addOption("Raise", [setRate(2n)]).build().proposalId)
+})
+
+test("rejects proposals the governor would reject, with its error names", () => {
+    const error = (builder: DeltaProposalBuilder) => {
+        try {
+            builder.build()
+        } catch (err) {
+            assert.ok(err instanceof DeltaProposalError)
+            return err.errorName
+        }
+        assert.fail("build did not throw")
+    }
+
+    assert.equal(error(new DeltaProposalBuilder().addOption("Only", [setRate(1n)])), "GovernorDeltaInvalidProposal")
+    assert.equal(error(new DeltaProposalBuilder().addOption("A", [setRate(1n)]).addOption("B", [setRate(2n)]).setWinners(2)), "GovernorDeltaInvalidProposal")
+    assert.equal(error(new DeltaProposalBuilder().addOption("A", [setRate(1n)]).addOption("B", [setRate(2n)]).setWinners(0)), "GovernorDeltaInvalidProposal")
+    assert.equal(error(new DeltaProposalBuilder().addOption("A", []).addOption("B", [setRate(2n)])), "GovernorNonIncrementingOptionIndices")
+    assert.equal(error(new DeltaProposalBuilder().addOption("A", [setRate(1n)]).addOption("B", [])), "GovernorDeltaOutOfBounds")
+    assert.throws(() => new DeltaProposalBuilder().addOption("A", [setRate(1n)]).addOption("A", [setRate(2n)]), /duplicate option name "A"/)
+})
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { CTMHomeABI } from "../../abi/CTMHome"
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import { AddressBook, deployedChainIds, DeploymentNotFoundError, getDeployment, IncompleteDeploymentError } from "../../sdk/deployments"
+
+const book: AddressBook = {
+    1: {
+        ctm: "0x38fcf7cfd3b795cb309fddc0f8352f2123352cc0",
+        votingEscrowProxy: "0xbf6b5a3209b6fd5b81579c90cdcc7b50c12103e7",
+        votingEscrowImpl: "0xf7e8779e90b48d0c4f0deae57210536a9cf65286",
+        ctmDAOGovernor: "0x9ed932bd117473d47392cb28c12a224919847256",
+        nodeProperties: "0xe0fbc3963cfa94c63ecc7993b75fcf813b48f3a8",
+        rewards: "0x5445b7f51736a18c78f80abff9cd01e6d821334b"
+    },
+    10: { ctm: "0x38fcf7cfd3b795cb309fddc0f8352f2123352cc0" }
+}
+
+test("pairs checksummed addresses with their ABIs", () => {
+    const deployment = getDeployment(1, book)
+
+    assert.equal(deployment.chainId, 1)
+    assert.equal(deployment.votingEscrow.address, "0xBF6b5A3209B6Fd5b81579c90cdcC7b50c12103E7")
+    assert.equal(deployment.votingEscrow.abi, VotingEscrowABI)
+    assert.equal(deployment.votingEscrowImplementation.address, "0xf7E8779e90B48d0C4f0DeAe57210536A9cf65286")
+    assert.deepEqual(deployedChainIds(book), [1])
+})
+
+test("names unknown chains and missing contracts", () => {
+    assert.throws(() => getDeployment(5, book), (err: DeploymentNotFoundError) =>
+        err instanceof DeploymentNotFoundError && err.chainId === 5 && err.message.endsWith("Deployed chain IDs: 1")
+    )
+    assert.throws(() => getDeployment(10, book), (err: IncompleteDeploymentError) =>
+        err instanceof IncompleteDeploymentError &&
+        err.missing.join() === "votingEscrowProxy,votingEscrowImpl,ctmDAOGovernor,nodeProperties,rewards"
+    )
+    assert.deepEqual(deployedChainIds({}), [])
+})
+
+test("reads deploy blocks and pairs CTMHome from the deployment records", () => {
+    const deployment = getDeployment(1, book, {
+        1: { ctm: { contractName: "CTMHome", blockNumber: 100 }, rewards: { blockNumber: null } }
+    })
+
+    assert.equal(deployment.ctm.contractName, "CTMHome")
+    assert.equal(deployment.ctm.abi, CTMHomeABI)
+    assert.equal(deployment.ctm.blockNumber, 100n)
+    assert.equal("blockNumber" in deployment.rewards, false)
+    assert.equal(getDeployment(1, book, {}).ctm.contractName, "CTM")
+})
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Address, parseEther } from "viem"
+
+import {
+    buildEmissionRateDeltaProposal,
+    buildEmissionRateSchedule,
+    EmissionRateError,
+    MAX_EMISSION_RATE
+} from "../../sdk/governance/emissionRateProposal"
+
+const rewards: Address = "0x000000000000000000000000000000000000d00d"
+const rate = (percent: string) => parseEther(percent) / 100n
+
+test("steps towards the target at most maxStep apart", () => {
+    const steps = buildEmissionRateSchedule({ rewards, kind: "base", current: rate("0.05"), target: rate("0.08"), maxStep: rate("0.02") })
+    assert.deepEqual(steps.map(step => step.to), [rate("0.07"), rate("0.08")])
+    assert.notEqual(steps[0].proposal.proposalId, steps[1].proposal.proposalId)
+})
+
+test("gives repeated candidates a single option", () => {
+    const proposal = buildEmissionRateDeltaProposal(rewards, "node", rate("0.1"), [rate("0.2"), rate("0.3"), rate("0.2"), rate("0.1")], "Node rate")
+    assert.deepEqual(proposal.options.map(option => option.name), ["Keep 0.1%", "Set 0.2%", "Set 0.3%"])
+})
+
+test("rejects rates the contract cannot take", () => {
+    const check = (target: bigint, errorName: string) =>
+        assert.throws(
+            () => buildEmissionRateSchedule({ rewards, kind: "base", current: 0n, target }),
+            (error: unknown) => error instanceof EmissionRateError && error.errorName === errorName
+        )
+    check(MAX_EMISSION_RATE + 1n, "Rewards_EmissionRateChangeTooHigh")
+    check(-1n, "NegativeEmissionRate")
+    assert.throws(() => buildEmissionRateDeltaProposal(rewards, "base", 0n, [-rate("0.01")], "Base rate"), EmissionRateError)
+})
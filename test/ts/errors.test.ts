@@ -0,0 +1,43 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { encodeErrorResult, pad, parseEther } from "viem"
+
+import { CTMABI } from "../../abi/CTM"
+import { CTMDAOGovernorABI } from "../../abi/CTMDAOGovernor"
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import { decodeRevert } from "../../sdk/errors"
+
+test("formats amounts and times in error messages", () => {
+    const balance = encodeErrorResult({
+        abi: CTMABI,
+        errorName: "ERC20InsufficientBalance",
+        args: ["0x000000000000000000000000000000000000a11c", parseEther("1.5"), parseEther("2")]
+    })
+    assert.equal(decodeRevert(balance)?.message, "Balance of 1.5 CTM is below the 2 CTM needed")
+
+    const expired = encodeErrorResult({ abi: VotingEscrowABI, errorName: "VotingEscrow_LockExpired", args: [1_800_000_000n] })
+    assert.equal(decodeRevert(expired)?.message, "The lock expired at 2027-01-15T08:00:00.000Z")
+})
+
+test("renders errors without a message as their signature", () => {
+    const data = encodeErrorResult({ abi: VotingEscrowABI, errorName: "SafeCastOverflowedUintDowncast", args: [48, 2n ** 48n] })
+    assert.equal(decodeRevert(data)?.message, `SafeCastOverflowedUintDowncast(bits: 48, value: ${2n ** 48n})`)
+})
+
+test("returns undefined for unknown selectors", () => {
+    assert.equal(decodeRevert("0xdeadbeef"), undefined)
+})
+
+test("lists the expected proposal states, or says that none is allowed", () => {
+    const unexpected = (expectedStates: `0x${string}`) =>
+        decodeRevert(encodeErrorResult({ abi: CTMDAOGovernorABI, errorName: "GovernorUnexpectedProposalState", args: [1n, 3, expectedStates] }))?.message
+
+    assert.equal(unexpected(pad("0x03")), "Proposal is Defeated, it must be Pending or Active")
+    assert.equal(unexpected(pad("0x00")), "Proposal is Defeated, the action is not allowed in any state")
+})
+
+test("decodes errors declared only in the generated governor ABI", () => {
+    const data = encodeErrorResult({ abi: CTMDAOGovernorABI, errorName: "GovernorInvalidSuperQuorumTooSmall", args: [10n, 20n] })
+    assert.deepEqual(decodeRevert(data)?.contracts, ["CTMDAOGovernor"])
+    assert.equal(decodeRevert(data)?.message, "Super quorum numerator 10 is below the quorum numerator 20")
+})
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Address } from "viem"
+
+import { RewardsABI } from "../../abi/Rewards"
+import { feeGaps, feeReportCsv, feeReportJson, monthlyFeeReport, monthRange, openFeeStore, writeFeeLogs } from "../../js-helpers/lib/fee-ledger"
+import { Store } from "../../js-helpers/lib/indexer"
+import { eventLog } from "./logs"
+
+const ONE_DAY = 86400n
+const usdc: Address = "0x000000000000000000000000000000000000c0de"
+const march = monthRange("2025-03")
+
+function ledger(receipts: [fromChainId: bigint, amount: bigint, timestamp: bigint][]): Store {
+    const db = openFeeStore(":memory:")
+    writeFeeLogs(db, receipts.map(([fromChainId, amount, timestamp], i) => eventLog(
+        RewardsABI,
+        "FeesReceived",
+        { _token: usdc, _amount: amount, _fromChainId: fromChainId },
+        { blockNumber: BigInt(i + 1), logIndex: 0, timestamp }
+    )))
+    return db
+}
+
+const day = (n: bigint) => march.from + n * ONE_DAY
+
+test("merges consecutive missed days into one gap", () => {
+    const db = ledger([[1n, 10n, day(0n) + 3600n], [1n, 10n, day(3n)]])
+
+    assert.deepEqual(feeGaps(db, { expectedChainIds: [1n, 2n], from: day(0n), to: day(5n) }), [
+        { fromChainId: 1n, from: day(1n), to: day(3n), missedPeriods: 2 },
+        { fromChainId: 1n, from: day(4n), to: day(5n), missedPeriods: 1 },
+        { fromChainId: 2n, from: day(0n), to: day(5n), missedPeriods: 5 }
+    ])
+    db.close()
+})
+
+test("checks multi-day periods and skips a trailing partial one", () => {
+    const db = ledger([[1n, 10n, day(1n)], [1n, 10n, day(2n)]])
+
+    // [0, 2) and [2, 4) are covered, [4, 6) is missed and [6, 7) has not ended
+    assert.deepEqual(feeGaps(db, { expectedChainIds: [1n], from: day(0n), to: day(7n), periodDays: 2n }), [
+        { fromChainId: 1n, from: day(4n), to: day(6n), missedPeriods: 1 }
+    ])
+    assert.throws(() => feeGaps(db, { expectedChainIds: [1n], from: day(0n), to: day(7n), periodDays: 0n }), /periodDays must be positive/)
+    db.close()
+})
+
+test("monthRange covers the calendar month in UTC", () => {
+    assert.deepEqual(monthRange("2024-02"), { from: BigInt(Date.UTC(2024, 1, 1) / 1000), to: BigInt(Date.UTC(2024, 2, 1) / 1000) })
+    assert.equal(monthRange("2024-02").to - monthRange("2024-02").from, 29n * ONE_DAY)
+    assert.equal(monthRange("2024-12").to, BigInt(Date.UTC(2025, 0, 1) / 1000))
+    assert.throws(() => monthRange("2024-13"), /expected a month as YYYY-MM/)
+    assert.throws(() => monthRange("2024-1"), /expected a month as YYYY-MM/)
+})
+
+test("reports the month's inflows and only the gaps before now", () => {
+    const db = ledger([
+        [1n, 7n, march.from - 1n],
+        [1n, 10n, day(0n) + 60n],
+        [1n, 5n, day(0n) + 120n],
+        [1n, 20n, day(1n)],
+        [2n, 3n, march.to - 1n]
+    ])
+
+    const report = monthlyFeeReport(db, "2025-03", { expectedChainIds: [1n], now: day(4n) + ONE_DAY / 2n })
+    assert.deepEqual(report.daily, [
+        { day: day(0n), fromChainId: 1n, token: usdc, receipts: 2, amount: 15n },
+        { day: day(1n), fromChainId: 1n, token: usdc, receipts: 1, amount: 20n },
+        { day: day(30n), fromChainId: 2n, token: usdc, receipts: 1, amount: 3n }
+    ])
+    assert.deepEqual(report.totals, [
+        { fromChainId: 1n, token: usdc, receipts: 3, amount: 35n },
+        { fromChainId: 2n, token: usdc, receipts: 1, amount: 3n }
+    ])
+    // the 5th is still in progress
+    assert.deepEqual(report.gaps, [{ fromChainId: 1n, from: day(2n), to: day(4n), missedPeriods: 2 }])
+
+    assert.deepEqual(monthlyFeeReport(db, "2025-03", { expectedChainIds: [1n], now: march.from }).gaps, [])
+    assert.equal(monthlyFeeReport(db, "2025-03", { expectedChainIds: [1n], now: march.to + ONE_DAY }).gaps[0].missedPeriods, 29)
+    db.close()
+})
+
+test("formats the report as CSV and JSON", () => {
+    const db = ledger([[1n, 1_500_000n, day(0n)]])
+    const report = monthlyFeeReport(db, "2025-03", { expectedChainIds: [1n], now: day(2n) })
+    const tokens = new Map([[usdc, { symbol: "USD \"Coin\", bridged", decimals: 6 }]])
+    db.close()
+
+    assert.equal(feeReportCsv(report, tokens), [
+        "type,date,to_date,from_chain_id,token,symbol,receipts,amount,amount_formatted",
+        `daily,2025-03-01,,1,${usdc},"USD ""Coin"", bridged",1,1500000,1.5`,
+        `total,2025-03,,1,${usdc},"USD ""Coin"", bridged",1,1500000,1.5`,
+        "gap,2025-03-02,2025-03-02,1,,,0,,",
+        ""
+    ].join("\n"))
+
+    assert.deepEqual(JSON.parse(feeReportJson(report)), {
+        month: "2025-03",
+        from: "2025-03-01",
+        to: "2025-03-31",
+        totals: [{ fromChainId: "1", receipts: 1, token: usdc, amount: "1500000" }],
+        daily: [{ day: "2025-03-01", fromChainId: "1", receipts: 1, token: usdc, amount: "1500000" }],
+        gaps: [{ fromChainId: "1", from: "2025-03-02", to: "2025-03-02", missedPeriods: 1 }]
+    })
+})
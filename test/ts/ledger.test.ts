@@ -0,0 +1,127 @@
+import assert from "node:assert/strict"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { test } from "node:test"
+
+import { BroadcastHistory, DeployedContract, ProxyUpgrade, readBroadcasts } from "../../js-helpers/lib/broadcast"
+import { buildLedger, implementationAt, liveAt } from "../../js-helpers/lib/ledger"
+
+const proxy = "0x00000000000000000000000000000000000000b2"
+const v1 = "0x00000000000000000000000000000000000000a1"
+const v2 = "0x00000000000000000000000000000000000000a2"
+
+const run = (timestamp: number, transactionHash: string, chainId = 1) => ({
+    chainId,
+    script: "DeployVotingEscrow.s.sol",
+    runFile: `DeployVotingEscrow.s.sol/${chainId}/run-${timestamp}.json`,
+    timestamp,
+    commit: `c${timestamp}`,
+    transactionHash,
+    blockNumber: timestamp
+})
+
+function deployment(name: string, address: string, timestamp: number, transactionHash: string, implementation?: string): DeployedContract {
+    return {
+        ...run(timestamp, transactionHash),
+        name,
+        address,
+        deployer: "0x00000000000000000000000000000000000000d0",
+        creation: "CREATE",
+        arguments: null,
+        initCode: null,
+        ...(implementation && { implementation })
+    }
+}
+
+function upgrade(implementation: string, timestamp: number, transactionHash: string): ProxyUpgrade {
+    return { ...run(timestamp, transactionHash), proxy, implementation }
+}
+
+// v1 and its proxy at 1000, whose constructor emits Upgraded(v1), then v2 at 2000 and an upgrade to it at 3000
+const history: BroadcastHistory = {
+    deployments: [
+        deployment("VotingEscrow", v1, 1000, "0x01"),
+        deployment("VotingEscrowProxy", proxy, 1000, "0x02", v1),
+        deployment("VotingEscrow", v2, 2000, "0x03")
+    ],
+    calls: [],
+    upgrades: [upgrade(v1, 1000, "0x02"), upgrade(v2, 3000, "0x04")]
+}
+
+test("folds the constructor upgrade into the proxy deployment", () => {
+    const { entries, proxies } = buildLedger(history)
+
+    assert.deepEqual(entries.map(entry => [entry.kind, entry.contractName, entry.implementationName]), [
+        ["deployment", "VotingEscrow", undefined],
+        ["deployment", "VotingEscrowProxy", "VotingEscrow"],
+        ["deployment", "VotingEscrow", undefined],
+        ["upgrade", "VotingEscrowProxy", "VotingEscrow"]
+    ])
+    assert.deepEqual(proxies[0].periods.map(period => [period.implementation, period.from, period.until]), [[v1, 1000, 3000], [v2, 3000, null]])
+})
+
+test("answers which implementation and contracts were live at a time", () => {
+    const ledger = buildLedger(history)
+
+    assert.equal(implementationAt(ledger, 1, proxy, 999), undefined)
+    assert.equal(implementationAt(ledger, 1, proxy, 2999)!.implementation, v1)
+    assert.equal(implementationAt(ledger, 1, proxy.toUpperCase().replace("0X", "0x"), 3000)!.implementation, v2)
+
+    assert.deepEqual(liveAt(ledger, 1, 2500).map(live => [live.contractName, live.address, live.implementation]), [
+        ["VotingEscrow", v2, undefined],
+        ["VotingEscrowProxy", proxy, v1]
+    ])
+    assert.deepEqual(liveAt(ledger, 2, 2500), [])
+})
+
+test("tracks proxies upgraded by a broadcast that did not deploy them", () => {
+    const { entries, proxies } = buildLedger({ deployments: [], calls: [], upgrades: [upgrade(v2, 3000, "0x04")] })
+
+    assert.deepEqual(entries.map(entry => [entry.kind, entry.contractName, entry.implementationName]), [["upgrade", null, null]])
+    assert.deepEqual(proxies, [{
+        chainId: 1,
+        proxy,
+        contractName: null,
+        deployedAt: null,
+        periods: [{ implementation: v2, implementationName: null, from: 3000, fromBlock: 3000, until: null, commit: "c3000", transactionHash: "0x04" }]
+    }])
+})
+
+test("reads upgrades from the Upgraded logs of broadcast receipts", () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "broadcast-"))
+    const chainDir = path.join(dir, "UpgradeVotingEscrow.s.sol", "1")
+    mkdirSync(chainDir, { recursive: true })
+    writeFileSync(path.join(chainDir, "run-3000.json"), JSON.stringify({
+        timestamp: 3000,
+        chain: 1,
+        commit: null,
+        transactions: [{
+            hash: "0x04",
+            transactionType: "CALL",
+            contractName: "VotingEscrowProxy",
+            contractAddress: proxy,
+            function: "upgradeToAndCall(address,bytes)",
+            arguments: [v2, "0x"],
+            transaction: { from: "0x00000000000000000000000000000000000000d0" }
+        }],
+        receipts: [{
+            transactionHash: "0x04",
+            blockNumber: "0xbb8",
+            from: "0x00000000000000000000000000000000000000d0",
+            status: "0x1",
+            logs: [{
+                address: proxy,
+                topics: ["0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b", `0x${v2.slice(2).padStart(64, "0")}`],
+                data: "0x"
+            }]
+        }]
+    }))
+
+    try {
+        const { upgrades } = readBroadcasts(dir)
+        assert.deepEqual(upgrades.map(upgrade => [upgrade.proxy, upgrade.implementation, upgrade.blockNumber]), [[proxy, v2, 3000]])
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
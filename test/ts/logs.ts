@@ -0,0 +1,35 @@
+import { Abi, AbiEvent, encodeAbiParameters, encodeEventTopics, Hash, pad, toHex } from "viem"
+
+import { IndexedLog } from "../../js-helpers/lib/indexer"
+
+/// @notice Where a synthetic log sits on chain
+export interface LogPosition {
+    blockNumber: bigint
+    logIndex: number
+    timestamp: bigint
+    /// @notice Defaults to a hash derived from the block number, one transaction per block
+    transactionHash?: Hash
+}
+
+/// @notice Encodes `args` as the log `eventName` of `abi` would be emitted, for feeding the indexers without a node
+export function eventLog(abi: Abi, eventName: string, args: Record<string, unknown>, position: LogPosition): IndexedLog {
+    const event = abi.find((item): item is AbiEvent => item.type === "event" && item.name === eventName)
+    if (!event) {
+        throw new Error(`eventLog: no event ${eventName}`)
+    }
+    const indexed = Object.fromEntries(event.inputs.filter(input => input.indexed).map(input => [input.name!, args[input.name!]]))
+    const data = event.inputs.filter(input => !input.indexed)
+
+    return {
+        address: pad("0x01", { size: 20 }),
+        topics: encodeEventTopics({ abi: [event], eventName, args: indexed } as Parameters<typeof encodeEventTopics>[0]) as IndexedLog["topics"],
+        data: encodeAbiParameters(data, data.map(input => args[input.name!])),
+        blockNumber: position.blockNumber,
+        blockHash: pad(toHex(position.blockNumber), { size: 32 }),
+        transactionHash: position.transactionHash ?? pad(toHex(position.blockNumber), { size: 32 }),
+        transactionIndex: 0,
+        logIndex: position.logIndex,
+        removed: false,
+        timestamp: position.timestamp
+    }
+}
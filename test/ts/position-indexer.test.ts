@@ -0,0 +1,55 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Address, zeroAddress } from "viem"
+
+import { VotingEscrowABI } from "../../abi/VotingEscrow"
+import { openPositionStore, writePositionLogs } from "../../js-helpers/lib/position-indexer"
+import { eventLog } from "./logs"
+
+const owner: Address = "0x000000000000000000000000000000000000a11c"
+const end = 1_800_000_000n
+
+function supplies(logs: ReturnType<typeof eventLog>[]): [string, string][] {
+    const db = openPositionStore(":memory:")
+    writePositionLogs(db, logs, new Map())
+    const rows = db.prepare("SELECT previous_supply, supply FROM supply_changes ORDER BY block_number, log_index").all() as
+        { previous_supply: string; supply: string }[]
+    db.close()
+    return rows.map(row => [row.previous_supply, row.supply])
+}
+
+function createLock(tokenId: bigint, value: bigint, previousSupply: bigint, blockNumber: bigint) {
+    const at = { blockNumber, timestamp: 1_700_000_000n + blockNumber }
+    return [
+        eventLog(VotingEscrowABI, "Transfer", { from: zeroAddress, to: owner, tokenId }, { ...at, logIndex: 0 }),
+        eventLog(VotingEscrowABI, "Deposit", { _provider: owner, _tokenId: tokenId, _value: value, _locktime: end, _deposit_type: 1, _ts: at.timestamp }, { ...at, logIndex: 1 }),
+        eventLog(VotingEscrowABI, "Supply", { _prevSupply: previousSupply, _supply: previousSupply + value }, { ...at, logIndex: 2 })
+    ]
+}
+
+test("merge does not change the indexed supply", () => {
+    const at = { blockNumber: 3n, timestamp: 1_700_000_003n }
+    const logs = [
+        ...createLock(1n, 100n, 0n, 1n),
+        ...createLock(2n, 50n, 100n, 2n),
+        eventLog(VotingEscrowABI, "Transfer", { from: owner, to: zeroAddress, tokenId: 1n }, { ...at, logIndex: 0 }),
+        eventLog(VotingEscrowABI, "Deposit", { _provider: owner, _tokenId: 2n, _value: 100n, _locktime: end, _deposit_type: 4, _ts: at.timestamp }, { ...at, logIndex: 1 }),
+        eventLog(VotingEscrowABI, "Supply", { _prevSupply: 150n, _supply: 250n }, { ...at, logIndex: 2 }),
+        eventLog(VotingEscrowABI, "Merge", { _fromId: 1n, _toId: 2n }, { ...at, logIndex: 3 })
+    ]
+
+    assert.deepEqual(supplies(logs), [["0", "100"], ["100", "150"]])
+})
+
+test("split does not change the indexed supply", () => {
+    const at = { blockNumber: 2n, timestamp: 1_700_000_002n }
+    const logs = [
+        ...createLock(1n, 100n, 0n, 1n),
+        eventLog(VotingEscrowABI, "Transfer", { from: zeroAddress, to: owner, tokenId: 2n }, { ...at, logIndex: 0 }),
+        eventLog(VotingEscrowABI, "Deposit", { _provider: owner, _tokenId: 2n, _value: 40n, _locktime: end, _deposit_type: 5, _ts: at.timestamp }, { ...at, logIndex: 1 }),
+        eventLog(VotingEscrowABI, "Supply", { _prevSupply: 100n, _supply: 140n }, { ...at, logIndex: 2 }),
+        eventLog(VotingEscrowABI, "Split", { _tokenId: 1n, _extractionId: 2n, _extractionValue: 40n }, { ...at, logIndex: 3 })
+    ]
+
+    assert.deepEqual(supplies(logs), [["0", "100"]])
+})
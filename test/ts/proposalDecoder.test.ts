@@ -0,0 +1,75 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Address, encodeFunctionData, erc20Abi, sliceHex } from "viem"
+
+import { NodePropertiesABI } from "../../abi/NodeProperties"
+import { RewardsABI } from "../../abi/Rewards"
+import { getDeployment } from "../../sdk/deployments"
+import { DeltaProposalBuilder, encodeDeltaMetadata, hashDescription } from "../../sdk/governance/deltaProposal"
+import { decodeDeltaMetadata, decodeOperation, decodeProposal, validateDeltaMetadata } from "../../sdk/governance/proposalDecoder"
+
+const addresses = {
+    ctm: "0x0000000000000000000000000000000000000100",
+    votingEscrowProxy: "0x0000000000000000000000000000000000000200",
+    votingEscrowImpl: "0x0000000000000000000000000000000000000300",
+    ctmDAOGovernor: "0x0000000000000000000000000000000000000400",
+    nodeProperties: "0x0000000000000000000000000000000000000500",
+    rewards: "0x0000000000000000000000000000000000000600"
+} as const
+const deployment = getDeployment(1, { 1: addresses }, { 1: { ctm: { contractName: "CTMHome", blockNumber: null } } })
+const rewards = deployment.rewards.address
+
+const setRate = (rate: bigint) => ({ target: rewards, calldata: encodeFunctionData({ abi: RewardsABI, functionName: "setBaseEmissionRate", args: [rate] }) })
+
+test("decodes a built Delta proposal back into its options", () => {
+    const proposal = new DeltaProposalBuilder("#12: Set emission rate")
+        .addOption("Keep", [setRate(1n)])
+        .addOption("Raise", [setRate(2n), setRate(3n)])
+        .setWinners(1)
+        .build()
+    const [targets, values, calldatas] = proposal.request.args
+
+    const decoded = decodeProposal({ targets, values, calldatas, descriptionHash: proposal.descriptionHash }, deployment)
+    assert.equal(decoded.kind, "delta")
+    if (decoded.kind !== "delta") return
+
+    assert.equal(decoded.proposalId, proposal.proposalId)
+    assert.deepEqual(decoded.metadata, proposal.metadata)
+    assert.deepEqual(decoded.issues, [])
+    assert.deepEqual(decoded.options.map(option => option.operations.map(op => op.summary)), [
+        ["Rewards.setBaseEmissionRate(1)"],
+        ["Rewards.setBaseEmissionRate(2)", "Rewards.setBaseEmissionRate(3)"]
+    ])
+})
+
+test("decodes a Bravo proposal as a flat list of operations", () => {
+    const decoded = decodeProposal({ targets: [rewards], values: [0n], calldatas: [setRate(5n).calldata], descriptionHash: hashDescription("") })
+    assert.equal(decoded.kind, "bravo")
+    assert.deepEqual(decoded.kind === "bravo" && decoded.operations.map(op => op.summary), ["Rewards.setBaseEmissionRate(5)"])
+
+    const mismatched = decodeProposal({ targets: [rewards], values: [], calldatas: [setRate(5n).calldata], descriptionHash: hashDescription("") })
+    assert.deepEqual(mismatched.issues.map(issue => issue.errorName), ["GovernorInvalidProposalLength"])
+})
+
+test("reports truncated headers and validates metadata in the contract's order", () => {
+    const header = encodeDeltaMetadata({ nOptions: 3n, nWinners: 1n, optionIndices: [1n, 2n, 3n] })
+    const { metadata, issues } = decodeDeltaMetadata(sliceHex(header, 0, 96))
+    assert.deepEqual(metadata, { nOptions: 3n, nWinners: 1n, optionIndices: [1n, 0n, 0n] })
+    assert.match(issues[0].message, /metadata is 96 bytes, expected 160 for 3 options/)
+
+    const names = validateDeltaMetadata({ nOptions: 2n, nWinners: 2n, optionIndices: [3n, 1n] }, 3).map(issue => issue.errorName)
+    assert.deepEqual(names, ["GovernorNonIncrementingOptionIndices", "GovernorDeltaInvalidProposal", "GovernorDeltaOutOfBounds"])
+})
+
+test("tries the target's ABI first and falls back to the others", () => {
+    const transfer = encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [rewards, 1n] })
+    assert.equal(decodeOperation(deployment.ctm.address, 0n, transfer, deployment).contractName, "CTMHome")
+    assert.equal(decodeOperation(deployment.ctm.address, 0n, transfer).contractName, "CTM")
+
+    // a NodeProperties call sent to Rewards still decodes
+    const setQuality = encodeFunctionData({ abi: NodePropertiesABI, functionName: "setNodeQualityOf", args: [1n, 7] })
+    assert.equal(decodeOperation(rewards, 0n, setQuality, deployment).summary, "NodeProperties.setNodeQualityOf(1, 7)")
+
+    const unknown: Address = "0x0000000000000000000000000000000000000999"
+    assert.equal(decodeOperation(unknown, 0n, "0x12345678abcd").summary, `${unknown}.0x12345678`)
+})
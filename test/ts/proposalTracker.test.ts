@@ -0,0 +1,119 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Address, Hex } from "viem"
+
+import { DeltaProposalBuilder } from "../../sdk/governance/deltaProposal"
+import { GovernorEvent, ProposalState, ProposalTracker } from "../../sdk/governance/proposalTracker"
+import { encodeVoteParams } from "../../sdk/governance/voteParams"
+
+const alice: Address = "0x000000000000000000000000000000000000a11c"
+const bob: Address = "0x0000000000000000000000000000000000000b0b"
+const target: Address = "0x0000000000000000000000000000000000000600"
+const proposalId = 1n
+
+// events as decodeGovernorLog returns them, each in its own block at the block's timestamp
+function apply(tracker: ProposalTracker, t: bigint, eventName: string, args: Record<string, unknown>, logIndex = 0): void {
+    tracker.apply({ eventName, args, blockNumber: t, logIndex, timestamp: t } as GovernorEvent)
+}
+
+function created(targets: Address[] = [target], calldatas: Hex[] = ["0x"]): ProposalTracker {
+    const tracker = new ProposalTracker(50n)
+    apply(tracker, 100n, "ProposalCreated", {
+        proposalId,
+        proposer: alice,
+        targets,
+        values: targets.map(() => 0n),
+        signatures: targets.map(() => ""),
+        calldatas,
+        voteStart: 200n,
+        voteEnd: 300n,
+        description: "#1"
+    })
+    return tracker
+}
+
+function voted(): ProposalTracker {
+    const tracker = created()
+    apply(tracker, 210n, "VoteCast", { voter: alice, proposalId, support: 1, weight: 60n, reason: "" })
+    apply(tracker, 220n, "VoteCast", { voter: bob, proposalId, support: 0, weight: 30n, reason: "" })
+    return tracker
+}
+
+test("moves from pending to active at the snapshot", () => {
+    const tracker = created()
+    assert.equal(tracker.stateAt(proposalId, 200n), ProposalState.Pending)
+    assert.deepEqual(tracker.nextTransition(proposalId, 150n), { state: ProposalState.Active, at: 201n })
+    // no votes, so no threshold can have been reached yet
+    assert.equal(tracker.stateAt(proposalId, 201n), ProposalState.Active)
+    assert.equal(tracker.stateAt(proposalId, 301n), undefined)
+})
+
+test("tallies votes and needs thresholds to settle the outcome", () => {
+    const tracker = voted()
+    const proposal = tracker.proposals.get(proposalId)!
+    assert.deepEqual(proposal.votes, [30n, 60n, 0n])
+    assert.equal(proposal.totalVotes, 60n)
+    assert.equal(tracker.stateAt(proposalId, 250n), undefined)
+
+    tracker.setThresholds(proposalId, { quorum: 50n, superQuorum: 100n })
+    assert.equal(proposal.quorumReachedAt, 210n)
+    assert.equal(tracker.stateAt(proposalId, 250n), ProposalState.Active)
+    assert.deepEqual(tracker.nextTransition(proposalId, 250n), { state: ProposalState.Succeeded, at: 301n })
+    assert.equal(tracker.maxDeadline(proposalId), 300n)
+
+    const short = voted()
+    short.setThresholds(proposalId, { quorum: 61n, superQuorum: 100n })
+    assert.equal(short.stateAt(proposalId, 301n), ProposalState.Defeated)
+    assert.equal(short.maxDeadline(proposalId), 350n)
+})
+
+test("succeeds early once super quorum is reached", () => {
+    const tracker = voted()
+    tracker.setThresholds(proposalId, { quorum: 50n, superQuorum: 60n })
+
+    assert.equal(tracker.stateAt(proposalId, 209n), ProposalState.Active)
+    assert.equal(tracker.stateAt(proposalId, 210n), ProposalState.Succeeded)
+})
+
+test("follows deadline extensions, queueing, execution and cancellation", () => {
+    const tracker = voted()
+    tracker.setThresholds(proposalId, { quorum: 50n, superQuorum: 100n })
+
+    apply(tracker, 290n, "ProposalExtended", { proposalId, extendedDeadline: 340n })
+    assert.deepEqual(tracker.proposals.get(proposalId)!.extensions, [{ from: 300n, to: 340n, timestamp: 290n, blockNumber: 290n }])
+    assert.equal(tracker.stateAt(proposalId, 320n), ProposalState.Active)
+
+    apply(tracker, 350n, "ProposalQueued", { proposalId, etaSeconds: 400n })
+    assert.equal(tracker.stateAt(proposalId, 350n), ProposalState.Queued)
+    apply(tracker, 400n, "ProposalExecuted", { proposalId })
+    assert.equal(tracker.stateAt(proposalId, 400n), ProposalState.Executed)
+    assert.equal(tracker.nextTransition(proposalId, 400n), undefined)
+
+    const canceled = created()
+    apply(canceled, 150n, "ProposalCanceled", { proposalId })
+    assert.equal(canceled.stateAt(proposalId, 150n), ProposalState.Canceled)
+
+    apply(canceled, 160n, "LateQuorumVoteExtensionSet", { oldVoteExtension: 50n, newVoteExtension: 80n })
+    assert.equal(canceled.lateQuorumVoteExtension, 80n)
+})
+
+test("splits Delta votes across options and ignores replayed logs", () => {
+    const { request } = new DeltaProposalBuilder("#2")
+        .addOption("Keep", [{ target, calldata: "0x" }])
+        .addOption("Raise", [{ target, calldata: "0x" }])
+        .build()
+    const [targets, , calldatas] = request.args
+    const tracker = created(targets, calldatas)
+    assert.equal(tracker.proposals.get(proposalId)!.nOptions, 2n)
+
+    const vote = { voter: alice, proposalId, support: 1, weight: 100n, reason: "", params: encodeVoteParams([3n, 1n]) }
+    apply(tracker, 210n, "VoteCastWithParams", vote)
+    apply(tracker, 210n, "VoteCastWithParams", vote)
+
+    const proposal = tracker.proposals.get(proposalId)!
+    assert.deepEqual(proposal.votes, [75n, 25n])
+    assert.equal(proposal.totalVotes, 100n)
+    assert.equal(proposal.voters, 1)
+
+    assert.throws(() => apply(tracker, 220n, "ProposalCanceled", { proposalId: 2n }), /no ProposalCreated event for proposal 2/)
+})
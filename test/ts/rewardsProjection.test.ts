@@ -0,0 +1,36 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { parseEther } from "viem"
+
+import { projectRewards, RewardsProjectionParams } from "../../sdk/node/rewardsProjection"
+
+const WEEK = 7n * 86400n
+
+const params: RewardsProjectionParams = {
+    value: parseEther("10000"),
+    lockDuration: 52n * WEEK,
+    now: 1_760_000_000n,
+    rates: { baseEmissionRate: parseEther("1") / 2000n, nodeEmissionRate: parseEther("1") / 1000n, nodeRewardThreshold: parseEther("5000") }
+}
+
+test("compounding earns more than claiming", () => {
+    const { simple, compounded } = projectRewards(params)
+    assert.ok(simple.total > 0n)
+    assert.ok(compounded.total > simple.total)
+    assert.equal(simple.finalLocked, params.value)
+    // the rewards of the last segment are claimable but can no longer be compounded into the expired lock
+    assert.ok(compounded.finalLocked > params.value && compounded.finalLocked < params.value + compounded.total)
+})
+
+test("rejects a compounding interval that is not positive", () => {
+    assert.throws(() => projectRewards({ ...params, compoundEveryDays: 0n }), /compoundEveryDays must be positive/)
+    assert.throws(() => projectRewards({ ...params, compoundEveryDays: -7n }), /compoundEveryDays must be positive/)
+})
+
+test("rejects node qualities NodeProperties does not accept", () => {
+    assert.throws(() => projectRewards({ ...params, nodeQuality: 11n }), /nodeQuality must be between 0 and 10/)
+    assert.throws(() => projectRewards({ ...params, nodeQuality: -1n }), /nodeQuality must be between 0 and 10/)
+    // a four year lock keeps its voting power above the node reward threshold for a while
+    const long = { ...params, lockDuration: 208n * WEEK }
+    assert.ok(projectRewards({ ...long, nodeQuality: 10n }).simple.total > projectRewards(long).simple.total)
+})
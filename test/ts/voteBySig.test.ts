@@ -0,0 +1,62 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Address, encodeAbiParameters, hashStruct, keccak256, toHex, TypedDataDomain } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+
+import { ballotTypedData, signVote, verifyVote, VoteSupport } from "../../sdk/governance/voteBySig"
+import { encodeVoteParams } from "../../sdk/governance/voteParams"
+
+// the first two anvil accounts
+const voter = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcb6ae84d5a7a8ff80")
+const other = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d")
+const governor: Address = "0x0000000000000000000000000000000000000600"
+const domain: TypedDataDomain = { name: "CTMDAOGovernor", version: "1", chainId: 1, verifyingContract: governor }
+const ballot = { proposalId: 42n, support: VoteSupport.For, voter: voter.address, nonce: 0n }
+
+test("hashes ballots with the governor's BALLOT_TYPEHASH and EXTENDED_BALLOT_TYPEHASH", () => {
+    const simple = ballotTypedData(domain, ballot)
+    assert.equal(hashStruct({ ...simple, data: simple.message } as Parameters<typeof hashStruct>[0]), keccak256(encodeAbiParameters(
+        [{ type: "bytes32" }, { type: "uint256" }, { type: "uint8" }, { type: "address" }, { type: "uint256" }],
+        [keccak256(toHex("Ballot(uint256 proposalId,uint8 support,address voter,uint256 nonce)")), 42n, 1, voter.address, 0n]
+    )))
+
+    const params = encodeVoteParams([3n, 1n])
+    const extended = ballotTypedData(domain, { ...ballot, reason: "option 1", params })
+    assert.equal(hashStruct({ ...extended, data: extended.message } as Parameters<typeof hashStruct>[0]), keccak256(encodeAbiParameters(
+        [{ type: "bytes32" }, { type: "uint256" }, { type: "uint8" }, { type: "address" }, { type: "uint256" }, { type: "bytes32" }, { type: "bytes32" }],
+        [
+            keccak256(toHex("ExtendedBallot(uint256 proposalId,uint8 support,address voter,uint256 nonce,string reason,bytes params)")),
+            42n,
+            1,
+            voter.address,
+            0n,
+            keccak256(toHex("option 1")),
+            keccak256(params)
+        ]
+    )))
+})
+
+test("signed votes verify against the voter and nothing else", async () => {
+    const vote = await signVote(voter, domain, ballot)
+    assert.equal(vote.kind, "ballot")
+    assert.equal(await verifyVote(domain, vote), true)
+
+    assert.equal(await verifyVote(domain, { ...vote, ballot: { ...ballot, support: VoteSupport.Against } }), false)
+    assert.equal(await verifyVote(domain, { ...vote, ballot: { ...ballot, nonce: 1n } }), false)
+    assert.equal(await verifyVote({ ...domain, chainId: 2 }, vote), false)
+    assert.equal(await verifyVote(domain, { ...vote, signature: "0x1234" }), false)
+})
+
+test("extended votes sign the reason and Delta params", async () => {
+    const vote = await signVote(voter, domain, { ...ballot, reason: "", params: encodeVoteParams([3n, 1n]) })
+    assert.equal(vote.kind, "extended")
+    assert.equal(await verifyVote(domain, vote), true)
+
+    if (vote.kind !== "extended") return
+    assert.equal(await verifyVote(domain, { ...vote, ballot: { ...vote.ballot, params: encodeVoteParams([1n, 3n]) } }), false)
+    assert.equal(await verifyVote(domain, { ...vote, ballot: { ...vote.ballot, reason: "changed my mind" } }), false)
+})
+
+test("signVote refuses to sign another voter's ballot", async () => {
+    await assert.rejects(signVote(other, domain, ballot), /is not the voter/)
+})
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { decodeVoteParams, encodeDeltaVote, encodeVoteParams, InvalidVoteParamsError, validateVoteParams } from "../../sdk/governance/voteParams"
+
+const config = { nOptions: 3n, nWinners: 1n }
+
+test("rescales weights to the voter's votes without losing any to rounding", () => {
+    const vote = encodeDeltaVote({ weights: [1n, 1n, 1n] }, 100n, config)
+
+    assert.deepEqual(vote.weights, [34n, 33n, 33n])
+    assert.deepEqual(decodeVoteParams(vote.params), vote.weights)
+    assert.deepEqual(vote.applied, [34n, 33n, 33n])
+})
+
+test("accepts percentages that sum to 100", () => {
+    const vote = encodeDeltaVote({ percentages: [50, 25.5, 24.5] }, 1_000n, config)
+    assert.deepEqual(vote.applied, [500n, 255n, 245n])
+})
+
+test("rejects percentages that do not sum to 100 instead of rescaling them", () => {
+    assert.throws(
+        () => encodeDeltaVote({ percentages: [50, 25, 20] }, 1_000n, config),
+        (err: InvalidVoteParamsError) => err.message === "GovernorDeltaInvalidVoteParams: percentages sum to 95%, they must sum to 100%"
+    )
+    assert.throws(() => encodeDeltaVote({ percentages: [60, 30, 20] }, 1_000n, config), InvalidVoteParamsError)
+})
+
+test("reports the checks _countVote makes", () => {
+    assert.match(validateVoteParams(encodeVoteParams([1n, 1n]), config)[0].message, /2 weights, the proposal has 3 options/)
+    assert.throws(() => encodeDeltaVote({ weights: [0n, 0n, 0n] }, 100n, config), /at least one weight must be nonzero/)
+    assert.throws(() => encodeDeltaVote({ weights: [1n, -1n, 1n] }, 100n, config), /weights must not be negative/)
+    assert.match(validateVoteParams("0x", { nOptions: 0n, nWinners: 0n })[0].message, /not a Delta proposal/)
+})